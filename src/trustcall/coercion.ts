@@ -0,0 +1,212 @@
+import type { ValidationIssue } from "./types.js";
+import { formatJsonPointer } from "./json-patch.js";
+import { subschemaAt, type JsonSchema } from "./json-schema.js";
+
+/**
+ * The kinds of mistakes `coerceToSchema` fixes.
+ */
+export type CoercionRule =
+  | "string_to_number"
+  | "string_to_boolean"
+  | "to_string"
+  | "wrap_in_array"
+  | "enum_case"
+  | "drop_null"
+  | "drop_unknown_key";
+
+/**
+ * One change made by `coerceToSchema`.
+ */
+export interface Coercion {
+  /** JSON Pointer of the value that changed */
+  path: string;
+  rule: CoercionRule;
+  from: unknown;
+  /** The new value, or undefined when the key was removed */
+  to?: unknown;
+}
+
+type SchemaObject = Record<string, unknown>;
+
+const NUMERIC = /^\s*-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?\s*$/;
+
+function isObject(value: unknown): value is SchemaObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The JSON types a schema accepts, or undefined if it doesn't say.
+ */
+function typesOf(schema: SchemaObject): string[] | undefined {
+  if (typeof schema.type === "string") {
+    return [schema.type];
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type as string[];
+  }
+  return undefined;
+}
+
+/**
+ * Convert a single value to the type `schema` asks for, if there's exactly
+ * one obvious way to.
+ */
+function coerceValue(
+  value: unknown,
+  schema: SchemaObject
+): { value: unknown; rule: CoercionRule } | undefined {
+  if (Array.isArray(schema.enum) && typeof value === "string") {
+    const matches = schema.enum.filter(
+      (option) =>
+        typeof option === "string" &&
+        option.toLowerCase() === value.toLowerCase()
+    );
+    return matches.length === 1 && matches[0] !== value
+      ? { value: matches[0], rule: "enum_case" }
+      : undefined;
+  }
+
+  const types = typesOf(schema);
+  if (!types) {
+    return undefined;
+  }
+  if (
+    (types.includes("number") || types.includes("integer")) &&
+    typeof value === "string" &&
+    NUMERIC.test(value)
+  ) {
+    const number = Number(value);
+    if (types.includes("number") || Number.isInteger(number)) {
+      return { value: number, rule: "string_to_number" };
+    }
+  }
+  if (types.includes("boolean") && typeof value === "string") {
+    const lower = value.trim().toLowerCase();
+    if (lower === "true" || lower === "false") {
+      return { value: lower === "true", rule: "string_to_boolean" };
+    }
+  }
+  if (
+    types.includes("string") &&
+    (typeof value === "number" || typeof value === "boolean")
+  ) {
+    return { value: String(value), rule: "to_string" };
+  }
+  if (types.includes("array") && !Array.isArray(value) && value !== null) {
+    return { value: [value], rule: "wrap_in_array" };
+  }
+  return undefined;
+}
+
+function get(
+  value: unknown,
+  path: Array<string | number>
+): { found: boolean; value: unknown } {
+  let current = value;
+  for (const key of path) {
+    if (
+      typeof current !== "object" ||
+      current === null ||
+      !(String(key) in current)
+    ) {
+      return { found: false, value: undefined };
+    }
+    current = (current as SchemaObject)[key];
+  }
+  return { found: true, value: current };
+}
+
+/**
+ * Try to fix validation issues deterministically, without asking the model.
+ * Each issue's value is checked against the subschema at its path and
+ * repaired when the fix is unambiguous:
+ *
+ * - numeric strings where a number is expected (`"30"` → `30`)
+ * - `"true"`/`"false"` where a boolean is expected
+ * - numbers and booleans where a string is expected
+ * - a single value where an array is expected
+ * - enum values with different casing
+ * - `null` for an optional property, which is removed
+ * - properties a closed object (`additionalProperties: false`) doesn't allow
+ *
+ * Returns a repaired copy of `value` with the changes made, in order. Issues
+ * it can't fix are left alone, so the result should be validated again.
+ */
+export function coerceToSchema(
+  value: unknown,
+  issues: ValidationIssue[],
+  schema: JsonSchema
+): { value: unknown; coercions: Coercion[] } {
+  const root = { value: JSON.parse(JSON.stringify(value)) as unknown };
+  const coercions: Coercion[] = [];
+  const handled = new Set<string>();
+
+  for (const issue of issues) {
+    const pointer = formatJsonPointer(issue.path);
+    if (handled.has(pointer)) {
+      continue;
+    }
+    const path = ["value", ...issue.path];
+    const parentPath = path.slice(0, -1);
+    const key = path[path.length - 1] as string | number;
+    const parent = get(root, parentPath).value as SchemaObject;
+    const current = get(root, path);
+    const subschema = subschemaAt(schema, issue.path);
+    const parentSchema = subschemaAt(schema, issue.path.slice(0, -1));
+
+    if (
+      current.found &&
+      current.value === null &&
+      isObject(parent) &&
+      isObject(parentSchema) &&
+      !(
+        Array.isArray(parentSchema.required) &&
+        parentSchema.required.includes(key)
+      ) &&
+      isObject(parentSchema.properties) &&
+      String(key) in parentSchema.properties
+    ) {
+      delete parent[key];
+      coercions.push({ path: pointer, rule: "drop_null", from: null });
+      handled.add(pointer);
+      continue;
+    }
+
+    if (
+      current.found &&
+      isObject(current.value) &&
+      isObject(subschema) &&
+      subschema.additionalProperties === false
+    ) {
+      const known = isObject(subschema.properties) ? subschema.properties : {};
+      for (const name of Object.keys(current.value)) {
+        if (!(name in known)) {
+          coercions.push({
+            path: formatJsonPointer([...issue.path, name]),
+            rule: "drop_unknown_key",
+            from: current.value[name],
+          });
+          delete current.value[name];
+        }
+      }
+      handled.add(pointer);
+      continue;
+    }
+
+    if (current.found && isObject(subschema)) {
+      const coerced = coerceValue(current.value, subschema);
+      if (coerced && typeof parent === "object" && parent !== null) {
+        (parent as SchemaObject)[key] = coerced.value;
+        coercions.push({
+          path: pointer,
+          rule: coerced.rule,
+          from: current.value,
+          to: coerced.value,
+        });
+        handled.add(pointer);
+      }
+    }
+  }
+
+  return { value: root.value, coercions };
+}
@@ -0,0 +1,122 @@
+import type {
+  DocumentConflict,
+  ExtractionError,
+  JsonPatchOp,
+  ValidationIssue,
+} from "./types.js";
+
+/**
+ * Raised when a JSON patch operation cannot be applied to a document.
+ *
+ * `document` is a snapshot of the document just before the failing
+ * operation, i.e. with every earlier operation in the list applied.
+ */
+export class PatchApplicationError extends Error {
+  /** Index of the failing operation within the patch list */
+  readonly opIndex: number;
+  /** The failing operation */
+  readonly op: JsonPatchOp;
+  /** The path of the failing operation */
+  readonly path: string;
+  /** Why the operation could not be applied */
+  readonly reason: string;
+  /** The document as it was when the failing operation was attempted */
+  readonly document: unknown;
+
+  constructor(
+    opIndex: number,
+    op: JsonPatchOp,
+    reason: string,
+    document: unknown
+  ) {
+    super(
+      `Patch ${opIndex} (${op?.op} ${JSON.stringify(op?.path)}) failed: ${reason}`
+    );
+    this.name = "PatchApplicationError";
+    this.opIndex = opIndex;
+    this.op = op;
+    this.path = op?.path;
+    this.reason = reason;
+    this.document = document;
+  }
+}
+
+/**
+ * Raised by a strict extractor when tool calls are still invalid after all
+ * repair attempts.
+ */
+export class ExtractionFailedError extends Error {
+  /** Every tool call that failed validation */
+  readonly errors: ExtractionError[];
+
+  constructor(errors: ExtractionError[]) {
+    const summary = errors
+      .map(
+        (e) =>
+          `${e.toolName} (${e.toolCallId}): ` +
+          e.issues
+            .map((issue) =>
+              issue.path.length > 0
+                ? `${issue.path.join(".")}: ${issue.message}`
+                : issue.message
+            )
+            .join("; ")
+      )
+      .join("\n");
+    super(`Extraction failed for ${errors.length} tool call(s):\n${summary}`);
+    this.name = "ExtractionFailedError";
+    this.errors = errors;
+  }
+}
+
+/**
+ * Raised when a JSON Schema cannot be converted to a Zod schema, e.g.
+ * because it uses an unsupported keyword or an unresolvable `$ref`.
+ */
+export class JsonSchemaConversionError extends Error {
+  /** The keyword that could not be converted */
+  readonly keyword: string;
+  /** JSON Pointer to the offending subschema within the root schema */
+  readonly schemaPath: string;
+
+  constructor(keyword: string, schemaPath: string, message: string) {
+    super(`${message} at #${schemaPath}`);
+    this.name = "JsonSchemaConversionError";
+    this.keyword = keyword;
+    this.schemaPath = schemaPath;
+  }
+}
+
+/**
+ * Raised for tool call arguments rejected by a non-Zod validator. Zod
+ * schemas report a ZodError instead.
+ */
+export class ValidationError extends Error {
+  /** The problems the validator found */
+  readonly issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[]) {
+    super(message);
+    this.name = "ValidationError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Raised by a DocumentStore when writes expect a version that documents are
+ * no longer at. None of the writes are applied.
+ */
+export class ConcurrencyConflictError extends Error {
+  /** Every write whose document changed */
+  readonly conflicts: DocumentConflict[];
+
+  constructor(conflicts: DocumentConflict[]) {
+    super(
+      `Documents changed since they were read: ${conflicts
+        .map((c) => c.key)
+        .join(", ")}`
+    );
+    this.name = "ConcurrencyConflictError";
+    this.conflicts = conflicts;
+  }
+}
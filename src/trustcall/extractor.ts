@@ -1,7 +1,8 @@
 import { z } from "zod";
-import { v4 as uuidv4 } from "uuid";
+import { v4 as uuidv4, v5 as uuidv5 } from "uuid";
 import {
   AIMessage,
+  AIMessageChunk,
   BaseMessage,
   HumanMessage,
   SystemMessage,
@@ -9,28 +10,81 @@ import {
   isAIMessage,
   isBaseMessage,
 } from "@langchain/core/messages";
-import { Annotation, StateGraph, START, END, Send } from "@langchain/langgraph";
+import {
+  Annotation,
+  StateGraph,
+  START,
+  END,
+  Send,
+  type LangGraphRunnableConfig,
+} from "@langchain/langgraph";
 import type { RunnableConfig } from "@langchain/core/runnables";
 import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { zodToJsonSchema } from "zod-to-json-schema";
 
 import type {
+  DocumentConflict,
   ExistingType,
+  ExtractionError,
+  JsonPatchOp,
   MessageOp,
   SchemaInstance,
   ToolCall,
+  ToolName,
+  ToolNamed,
   ToolType,
+  ToolValue,
+  TypedExisting,
+  ValidationIssue,
+  Validator,
 } from "./types.js";
 import { isZodSchema, getSchemaName } from "./types.js";
-import { applyJsonPatches, ensurePatches } from "./json-patch.js";
-import { applyMessageOps, getHistoryForToolCall } from "./utils.js";
 import {
-  PatchDocSchema,
+  applyJsonPatches,
+  applyMergePatch,
+  ensureObject,
+  ensurePatches,
+  parseJsonPointer,
+} from "./json-patch.js";
+import {
+  ConcurrencyConflictError,
+  ExtractionFailedError,
+  PatchApplicationError,
+  ValidationError,
+} from "./errors.js";
+import {
+  applyMessageOps,
+  canonicalJson,
+  estimateTokens,
+  getHistoryForToolCall,
+} from "./utils.js";
+import {
+  MergePatchDocSchema,
   PatchFunctionErrorsSchema,
+  ReplaceDocSchema,
+  createPatchDocSchema,
+  createPatchFunctionErrorsSchema,
   createPatchFunctionNameSchema,
   createRemoveDocSchema,
 } from "./schemas.js";
 import { ValidationNode } from "./validation-node.js";
+import { coerceToSchema, type Coercion } from "./coercion.js";
+import type { DocumentStore, StoreWrite } from "./store.js";
+import { applyExtraction, toInstances } from "./upsert.js";
+import { selectRelevant, type RelevanceOptions } from "./relevance.js";
+import { diffJson } from "./json-diff.js";
+import {
+  checkFieldPolicies,
+  type FieldPolicies,
+  type FieldPolicyViolation,
+} from "./field-policy.js";
+import {
+  describeIssues,
+  describeIssuesInContext,
+  jsonSchemaValidator,
+  runValidator,
+  zodValidator,
+} from "./validators.js";
 
 const DEFAULT_MAX_ATTEMPTS = 3;
 
@@ -107,6 +161,42 @@ function convertMessageDicts(messages: MessageDict[]): BaseMessage[] {
   return messages.map(convertMessageDict);
 }
 
+/**
+ * Coerce the accepted invoke() input formats into graph input.
+ */
+function coerceInput<TTools extends readonly ToolType[]>(
+  input: ExtractionInputs<TTools> | ExtractionInputs | string | BaseMessage
+): { messages: BaseMessage[]; existing?: ExistingType } {
+  if (typeof input === "string") {
+    // Simple string input
+    return { messages: [new HumanMessage({ content: input })] };
+  }
+  if (isBaseMessage(input)) {
+    // Single BaseMessage input
+    return { messages: [input] };
+  }
+
+  // ExtractionInputs object with { messages: ..., existing?: ... }
+  // Supports string, array of BaseMessage, or array of MessageDict
+  let messages: BaseMessage[];
+  if (typeof input.messages === "string") {
+    messages = [new HumanMessage({ content: input.messages })];
+  } else if (
+    Array.isArray(input.messages) &&
+    isBaseMessageArray(input.messages)
+  ) {
+    messages = input.messages;
+  } else if (
+    Array.isArray(input.messages) &&
+    isMessageDictArray(input.messages)
+  ) {
+    messages = convertMessageDicts(input.messages);
+  } else {
+    messages = input.messages as BaseMessage[];
+  }
+  return { messages, existing: input.existing as ExistingType | undefined };
+}
+
 /**
  * Extraction inputs type.
  *
@@ -119,40 +209,424 @@ function convertMessageDicts(messages: MessageDict[]): BaseMessage[] {
  * - A string
  * - A single BaseMessage
  */
-export interface ExtractionInputs {
+export interface ExtractionInputs<
+  TTools extends readonly ToolType[] = ToolType[],
+> {
   messages: string | BaseMessage[] | MessageDict[];
-  existing?: ExistingType;
+  /** Documents to update, checked against the tools' types */
+  existing?: ToolType[] extends TTools
+    ? ExistingType
+    : TypedExisting<TTools[number]>;
+  /**
+   * With a `store`, where the existing documents are loaded from when
+   * `existing` isn't given, and where the results are saved.
+   */
+  namespace?: string[];
 }
 
+/**
+ * Extraction inputs with untyped `existing` documents, such as records
+ * loaded from storage. Their `schemaName`s must be typed as plain strings,
+ * so documents written inline are still checked against the tools.
+ */
+export type UntypedExtractionInputs<S extends string = string> = Omit<
+  ExtractionInputs,
+  "existing"
+> & {
+  existing: Array<SchemaInstance & { schemaName: S }>;
+} & (string extends S ? unknown : never);
+
+/**
+ * A validated response tagged with the name of the schema it matched.
+ * Narrow on `schemaName` to get the type of `value`.
+ */
+export type NamedResponse<T = ToolType> = T extends unknown
+  ? {
+      schemaName: ToolName<T>;
+      value: ToolValue<T>;
+      /** The id of the tool call that produced the response */
+      id: string;
+      /** The id of the existing document this response updates, if any */
+      jsonDocId?: string;
+    }
+  : never;
+
 /**
  * Extraction outputs type.
  */
-export interface ExtractionOutputs {
+export interface ExtractionOutputs<
+  TTools extends readonly ToolType[] = ToolType[],
+> {
   messages: AIMessage[];
-  responses: z.infer<z.ZodSchema>[];
-  responseMetadata: Array<{ id: string; jsonDocId?: string }>;
+  responses: ToolValue<TTools[number]>[];
+  /** The same responses, tagged with the schema each one matched */
+  namedResponses: NamedResponse<TTools[number]>[];
+  responseMetadata: Array<{
+    id: string;
+    jsonDocId?: string;
+    /**
+     * In collection mode, an id derived from the instance's content (or
+     * `collectionKey`), so the same instance gets the same id across runs.
+     * Updated documents keep the id of the document they update.
+     */
+    recordId?: string;
+    /** The `version` of the existing document this response updates */
+    baseVersion?: string | number;
+  }>;
   attempts: number;
+  /** Tool calls that were still invalid when the extractor gave up */
+  errors: ExtractionError[];
+  /** Tool calls fixed by `autoRepair` without asking the model */
+  autoRepairs: AutoRepair[];
+  /** Ids of the existing documents the model removed with RemoveDoc */
+  removedDocIds: string[];
+  /**
+   * The patches that turned each updated document into its response, keyed
+   * by `jsonDocId`: the model's PatchDoc patches (as applied, in lenient
+   * mode, or the equivalent JSON patches of other update strategies), then
+   * any repairs. Pass them to `invertJsonPatches` to undo the update.
+   */
+  appliedPatches: Record<string, JsonPatchOp[]>;
+  /**
+   * The canonical patches from each updated document to its response, keyed
+   * by `jsonDocId` and computed with `diffJson`. Unlike `appliedPatches`,
+   * these are minimal and strict, so they show what actually changed.
+   */
+  documentDiffs: Record<string, JsonPatchOp[]>;
+  /**
+   * Documents that weren't saved to the `store` because another extraction
+   * changed them first. The extraction's other changes are still saved.
+   * Extract again from the new versions to apply them.
+   */
+  conflicts: DocumentConflict[];
+}
+
+/**
+ * The changes `autoRepair` made to one tool call.
+ */
+export interface AutoRepair {
+  toolCallId: string;
+  toolName: string;
+  coercions: Coercion[];
+}
+
+/**
+ * Events yielded by `streamResponses()`.
+ */
+export type ExtractionStreamEvent<
+  TTools extends readonly ToolType[] = ToolType[],
+> =
+  | {
+      /** Arguments of a tool call parsed from the chunks received so far */
+      type: "partial";
+      toolCallId: string;
+      toolName: string;
+      args: Record<string, unknown>;
+    }
+  | {
+      /** A tool call was validated against its schema */
+      type: "validation";
+      toolCallId: string;
+      toolName: string;
+      valid: boolean;
+      /** The validation error message, if invalid */
+      error?: string;
+    }
+  | {
+      /** A tool call was repaired, by patches or by `autoRepair` */
+      type: "repair";
+      toolCallId: string;
+      toolName: string;
+      args: Record<string, unknown>;
+    }
+  | {
+      /** The final extraction result */
+      type: "result";
+      result: ExtractionOutputs<TTools>;
+    };
+
+/**
+ * Lifecycle events reported to `ExtractorOptions.onEvent`.
+ *
+ * `attempt` counts the generations of a tool call: the initial extraction is
+ * attempt 1, and each repair produces the next attempt.
+ */
+export type ExtractionEvent = (
+  | {
+      type: "extraction_started";
+      /** "update" when existing documents were provided */
+      mode: "extract" | "update";
+    }
+  | {
+      type: "tool_call_validated";
+      toolCallId: string;
+      toolName: string;
+      attempt: number;
+    }
+  | {
+      type: "validation_failed";
+      toolCallId: string;
+      toolName: string;
+      attempt: number;
+      error: string;
+    }
+  | {
+      /** The model proposed patches for a tool call or existing document */
+      type: "patch_proposed";
+      toolCallId: string;
+      toolName: string;
+      attempt: number;
+      /** The existing document being patched, for PatchDoc calls */
+      jsonDocId?: string;
+      patches: JsonPatchOp[];
+      /** Time spent generating the patches */
+      durationMs: number;
+    }
+  | {
+      /** Proposed patches were applied without error */
+      type: "patch_applied";
+      toolCallId: string;
+      toolName: string;
+      attempt: number;
+      jsonDocId?: string;
+      args: Record<string, unknown>;
+      /** What the patches actually changed, as canonical patches */
+      diff: JsonPatchOp[];
+    }
+  | {
+      /** Patches or auto-repairs were rejected for changing protected fields */
+      type: "field_policy_violated";
+      toolCallId: string;
+      toolName: string;
+      attempt: number;
+      jsonDocId?: string;
+      violations: FieldPolicyViolation[];
+    }
+  | {
+      type: "tool_renamed";
+      toolCallId: string;
+      from: string;
+      to: string;
+      attempt: number;
+    }
+  | {
+      type: "doc_removed";
+      toolCallId: string;
+      jsonDocId: string;
+      /** The model's explanation, with `requireDeleteReasoning` */
+      reasoning?: string;
+    }
+  | {
+      type: "auto_repaired";
+      toolCallId: string;
+      toolName: string;
+      attempt: number;
+      coercions: Coercion[];
+    }
+  | {
+      /** The existing documents were serialized into the update prompt */
+      type: "existing_prompt_built";
+      /** How many documents are shown to the model */
+      documents: number;
+      /** How many were left out by `relevance` */
+      hiddenDocuments: number;
+      /** Rough size of the serialized documents and their schemas */
+      estimatedTokens: number;
+    }
+  | {
+      type: "extraction_finished";
+      attempts: number;
+      llmCalls: number;
+      responses: number;
+      errors: number;
+    }
+) & {
+  /** When the event was emitted, in milliseconds since the epoch */
+  timestamp: number;
+  /** Milliseconds since the extraction started */
+  elapsedMs: number;
+};
+
+type WithoutTiming<E> = E extends unknown
+  ? Omit<E, "timestamp" | "elapsedMs">
+  : never;
+
+/**
+ * A problem found by a semantic validator.
+ */
+export interface SemanticIssue {
+  /** JSON Pointer to the offending value. Defaults to the whole document. */
+  path?: string;
+  message: string;
+}
+
+/**
+ * What a semantic validator knows about the tool call it checks.
+ */
+export interface SemanticValidationContext {
+  toolCallId: string;
+  toolName: string;
+  /** Every tool call in the same response, for rules spanning records */
+  toolCalls: ToolCall[];
+  /** The existing documents passed to the extractor, if any */
+  existing?: ExistingType;
 }
 
+/**
+ * A business rule checked after a tool call passes schema validation.
+ * Returns the issues found, if any. Errors thrown by the validator abort
+ * the extraction rather than being shown to the model.
+ */
+export type SemanticValidator<T = Record<string, unknown>> = (
+  value: T,
+  context: SemanticValidationContext
+) => SemanticIssue[] | void | Promise<SemanticIssue[] | void>;
+
 /**
  * Options for creating an extractor.
  */
-export interface ExtractorOptions {
-  /** The tools/schemas to extract */
-  tools: ToolType[];
+export interface ExtractorOptions<
+  TTools extends readonly ToolType[] = ToolType[],
+> {
+  /**
+   * The tools/schemas to extract. Wrap Zod schemas in `namedSchema` to have
+   * their names reflected in the result types.
+   */
+  tools: TTools;
   /** Specific tool to force usage of */
   toolChoice?: string;
+  /**
+   * "collection" asks the model for every instance mentioned, one tool call
+   * each, drops duplicates and gives each instance a stable `recordId` in
+   * `responseMetadata`. Default: "extract".
+   */
+  mode?: "extract" | "collection";
+  /**
+   * In collection mode, what makes two instances the same, e.g. a person's
+   * name. Defaults to the whole value.
+   */
+  collectionKey?: (response: NamedResponse<TTools[number]>) => string;
   /** Allow inserting new schemas when updating */
   enableInserts?: boolean;
   /** Allow updating existing schemas */
   enableUpdates?: boolean;
+  /**
+   * How the model writes updates to existing documents in `PatchDoc`:
+   * "json-patch" as RFC 6902 operations, "merge-patch" as an RFC 7386
+   * merge patch, or "replace" as the complete new document, which is then
+   * validated against its schema. Merge patches are the easiest for
+   * smaller models. Repairs always use JSON Patch. Default: "json-patch".
+   */
+  updateStrategy?: "json-patch" | "merge-patch" | "replace";
   /** Allow deleting existing schemas */
   enableDeletes?: boolean;
+  /**
+   * Make the model explain each deletion in a `reasoning` argument, to
+   * guard against over-eager deletes. Default: false.
+   */
+  requireDeleteReasoning?: boolean;
   /**
    * Policy for handling existing schemas that don't match provided tools.
    * true = raise error, false = treat as dict, "ignore" = drop
    */
   existingSchemaPolicy?: boolean | "ignore";
+  /**
+   * Only show the model the `topK` existing documents most relevant to the
+   * conversation, for large collections. The others can still be patched
+   * or removed by id. Default: show every document.
+   */
+  relevance?: RelevanceOptions;
+  /** How validation errors are retried */
+  retryPolicy?: RetryPolicy;
+  /**
+   * Throw an ExtractionFailedError instead of returning when any tool call
+   * is still invalid after all repair attempts.
+   */
+  strict?: boolean;
+  /**
+   * Loads existing documents for invocations given a `namespace`, and saves
+   * the inserted, updated and removed documents back in one atomic write.
+   */
+  store?: DocumentStore;
+  /**
+   * Fix simple validation errors, such as `"30"` for a number or an enum
+   * value in the wrong case, without a model call. Tool calls are only
+   * repaired this way when every issue can be fixed; otherwise they go to
+   * the model as usual. Default: true.
+   */
+  autoRepair?: boolean;
+  /**
+   * Called with each lifecycle event of an extraction, e.g. to track
+   * repair rates per schema. Lifecycle events (`extraction_started` and
+   * `extraction_finished`) are only reported by `invoke()` and
+   * `streamResponses()`.
+   */
+  onEvent?: (event: ExtractionEvent) => void;
+  /**
+   * Semantic validators per tool name, run on the parsed value of every
+   * tool call that passes schema validation. Their issues are sent to the
+   * model for repair like schema errors.
+   */
+  validators?: {
+    [N in ToolName<TTools[number]>]?:
+      | SemanticValidator<ToolValue<ToolNamed<TTools[number], N>>>
+      | SemanticValidator<ToolValue<ToolNamed<TTools[number], N>>>[];
+  };
+  /**
+   * Fields of existing documents the model may not freely change, per tool
+   * name, keyed by JSON Pointer glob, e.g.
+   * `{ User: { "/id": "read-only", "/notes": "append-only" } }`. Patches
+   * that break them are rejected and sent back to the model for repair.
+   */
+  fieldPolicies?: {
+    [N in ToolName<TTools[number]>]?: FieldPolicies;
+  };
+  /**
+   * Key fields of arrays of objects, per tool name, keyed by JSON Pointer
+   * glob of the array, e.g. `{ User: { "/friends": "name" } }`. The model
+   * is told to address their items by key, as `/friends/[name=Alice]/age`,
+   * rather than by an index that shifts as items are added or removed.
+   */
+  arrayKeys?: {
+    [N in ToolName<TTools[number]>]?: Record<string, string>;
+  };
+}
+
+/**
+ * Controls how many repair rounds are run and which errors are retried.
+ */
+export interface RetryPolicy {
+  /**
+   * Maximum number of rounds (initial extraction included) across all tool
+   * calls. `config.configurable.max_attempts` takes precedence when set.
+   * Defaults to 3.
+   */
+  maxAttempts?: number;
+  /**
+   * Maximum number of attempts (initial generation included) for any single
+   * tool call. Calls that run out are left as they are.
+   */
+  maxAttemptsPerToolCall?: number;
+  /**
+   * Maximum number of LLM calls (extraction and repairs) per invocation.
+   */
+  maxLlmCalls?: number;
+  /** Delay before each repair of a tool call, growing exponentially */
+  backoff?: {
+    /** Delay before the first repair */
+    initialDelayMs: number;
+    /** Factor applied to the delay for each further repair. Defaults to 2. */
+    multiplier?: number;
+    /** Upper bound for the delay */
+    maxDelayMs?: number;
+  };
+  /**
+   * Decide whether a failed tool call is worth repairing. `error` is the
+   * validation error (a ZodError for Zod tools, a ValidationError for other
+   * validators) or PatchApplicationError that caused the failure. Defaults
+   * to retrying every error.
+   */
+  isRetryable?: (error: Error, toolCall: ToolCall) => boolean;
 }
 
 // State annotation for the extraction graph
@@ -200,8 +674,117 @@ const ExtractionStateAnnotation = Annotation.Root({
   existing: Annotation<ExistingType | undefined>,
   toolCallId: Annotation<string>,
   bumpAttempt: Annotation<boolean>,
+  // Repair rounds spent on each tool call, keyed by tool call id
+  toolCallAttempts: Annotation<Record<string, number>>({
+    reducer: (
+      curr: Record<string, number> | undefined,
+      update: Record<string, number>
+    ) => {
+      const merged = { ...(curr ?? {}) };
+      for (const [id, count] of Object.entries(update ?? {})) {
+        merged[id] = (merged[id] ?? 0) + count;
+      }
+      return merged;
+    },
+    default: () => ({}),
+  }),
+  llmCalls: Annotation<number>({
+    reducer: (curr: number | undefined, update: number) => (curr || 0) + update,
+    default: () => 0,
+  }),
+  startedAt: Annotation<number>,
+  autoRepairs: Annotation<AutoRepair[]>({
+    reducer: (curr: AutoRepair[] | undefined, update: AutoRepair[]) => [
+      ...(curr ?? []),
+      ...(update ?? []),
+    ],
+    default: () => [],
+  }),
+  // Patches applied to each tool call's arguments, keyed by tool call id
+  appliedPatches: Annotation<Record<string, JsonPatchOp[]>>({
+    reducer: (
+      curr: Record<string, JsonPatchOp[]> | undefined,
+      update: Record<string, JsonPatchOp[]>
+    ) => {
+      const merged = { ...(curr ?? {}) };
+      for (const [id, patches] of Object.entries(update ?? {})) {
+        merged[id] = [...(merged[id] ?? []), ...patches];
+      }
+      return merged;
+    },
+    default: () => ({}),
+  }),
+  // Parsed values of the tool calls that passed validation, keyed by tool
+  // call id. They aren't validated again in later rounds.
+  validCalls: Annotation<Record<string, unknown>>({
+    reducer: (
+      curr: Record<string, unknown> | undefined,
+      update: Record<string, unknown>
+    ) => ({ ...(curr ?? {}), ...(update ?? {}) }),
+    default: () => ({}),
+  }),
+  // Patch lists that failed part-way or broke a field policy, keyed by tool
+  // call id, until a later repair of the call applies cleanly (null)
+  patchFailures: Annotation<Record<string, Error | null>>({
+    reducer: (
+      curr: Record<string, Error | null> | undefined,
+      update: Record<string, Error | null>
+    ) => ({ ...(curr ?? {}), ...(update ?? {}) }),
+    default: () => ({}),
+  }),
 });
 
+/**
+ * The coercions made by auto-repair, as the patches that make them.
+ */
+function coercionPatches(coercions: Coercion[]): JsonPatchOp[] {
+  return coercions.map(({ path, rule, to }) =>
+    rule === "drop_null" || rule === "drop_unknown_key"
+      ? { op: "remove", path }
+      : { op: "replace", path, value: to }
+  );
+}
+
+/**
+ * Add instructions to the system message, creating one if there is none.
+ */
+function withSystemPrompt(
+  messages: BaseMessage[],
+  prompt: string
+): BaseMessage[] {
+  const [first, ...rest] = messages;
+  if (first instanceof SystemMessage) {
+    return [
+      new SystemMessage({ content: `${first.content}\n\n${prompt}` }),
+      ...rest,
+    ];
+  }
+  return [new SystemMessage({ content: prompt }), ...messages];
+}
+
+/**
+ * The ids of existing documents, in any of the accepted forms.
+ */
+function existingIds(existing: ExistingType): string[] {
+  return Array.isArray(existing)
+    ? existing.map((e) => (Array.isArray(e) ? e[0] : e.recordId))
+    : Object.keys(existing);
+}
+
+/**
+ * The text of the conversation, without tool results, to rank existing
+ * documents against.
+ */
+function conversationText(messages: BaseMessage[]): string {
+  return messages
+    .filter((message) => !(message instanceof ToolMessage))
+    .map((message) => message.text)
+    .join("\n");
+}
+
+/** Namespace for the name-based UUIDs given to collection instances */
+const RECORD_ID_NAMESPACE = "5b0f0b5e-3c47-4f8e-9d1a-6a2f4f9c1e27";
+
 /**
  * Convert a Zod schema to OpenAI function format.
  */
@@ -217,34 +800,220 @@ function zodToOpenAIFunction(schema: z.ZodObject<z.ZodRawShape>, name: string) {
   };
 }
 
+/**
+ * Turn a failed patch into a ToolMessage for the tool call it targeted, so
+ * the model can re-issue only the patches that were not applied.
+ */
+function formatPatchApplicationError(
+  error: PatchApplicationError,
+  toolCallId: string,
+  toolName: string
+): ToolMessage {
+  const applied =
+    error.opIndex === 1
+      ? "Patch 0 was applied successfully. "
+      : error.opIndex > 1
+        ? `Patches 0-${error.opIndex - 1} were applied successfully. `
+        : "";
+  return new ToolMessage({
+    id: uuidv4(),
+    content:
+      `Failed to apply patch ${error.opIndex} ` +
+      `(${JSON.stringify(error.op)}): ${error.reason}\n\n` +
+      `${applied}Patch ${error.opIndex} and any later patches were ` +
+      `NOT applied. ` +
+      `Current document:\n\n\`\`\`json\n` +
+      `${JSON.stringify(error.document, null, 2)}\n\`\`\`\n` +
+      `Please use PatchFunctionErrors to re-issue only the patches that were ` +
+      `not applied, corrected against the current document, ` +
+      `for json_doc_id=[${toolCallId}].`,
+    tool_call_id: toolCallId,
+    name: toolName,
+    status: "error",
+    artifact: error,
+    additional_kwargs: { is_error: true },
+  });
+}
+
+/**
+ * Tell the model its PatchDoc call had no usable merge patch or document,
+ * so it can make the update with patches instead.
+ */
+function formatMissingUpdate(
+  field: "patch" | "document",
+  document: Record<string, unknown>,
+  toolCallId: string,
+  toolName: string
+): ToolMessage {
+  const message = `PatchDoc's "${field}" must be a JSON object`;
+  return new ToolMessage({
+    id: uuidv4(),
+    content:
+      `${message}. The document was not changed.\n\n` +
+      `Current document:\n\n\`\`\`json\n` +
+      `${JSON.stringify(document, null, 2)}\n\`\`\`\n` +
+      `Please use PatchFunctionErrors to make the intended changes to ` +
+      `this document, for json_doc_id=[${toolCallId}].`,
+    tool_call_id: toolCallId,
+    name: toolName,
+    status: "error",
+    artifact: new ValidationError(message, [{ path: [], message }]),
+    additional_kwargs: { is_error: true },
+  });
+}
+
+/**
+ * Tell the model its patches were rejected for changing protected fields.
+ */
+function formatFieldPolicyViolations(
+  violations: FieldPolicyViolation[],
+  document: Record<string, unknown>,
+  toolCallId: string,
+  toolName: string
+): ToolMessage {
+  const report = violations
+    .map((v) => `Path: ${v.path}\nError: ${v.message}`)
+    .join("\n\n");
+  return new ToolMessage({
+    id: uuidv4(),
+    content:
+      `Rejected the patches because they change protected fields. ` +
+      `None of them were applied.\n\n${report}\n\n` +
+      `Current document:\n\n\`\`\`json\n` +
+      `${JSON.stringify(document, null, 2)}\n\`\`\`\n` +
+      `Please use PatchFunctionErrors to re-issue the patches without ` +
+      `changing these fields, for json_doc_id=[${toolCallId}].`,
+    tool_call_id: toolCallId,
+    name: toolName,
+    status: "error",
+    artifact: new ValidationError(
+      report,
+      violations.map((v) => ({
+        path: parseJsonPointer(v.path),
+        message: v.message,
+      }))
+    ),
+    additional_kwargs: { is_error: true },
+  });
+}
+
+/**
+ * A user tool in the form used for binding and validation.
+ */
+interface ToolDefinition {
+  validator: Validator;
+  /** The Zod schema the tool was defined with, bound in OpenAI format */
+  zodSchema?: z.ZodSchema;
+  description?: string;
+}
 
 /**
  * Convert tools to a standardized format.
  */
-function ensureTools(tools: ToolType[]): Map<string, z.ZodSchema> {
-  const result = new Map<string, z.ZodSchema>();
+function ensureTools(tools: readonly ToolType[]): Map<string, ToolDefinition> {
+  const result = new Map<string, ToolDefinition>();
+  const fromZod = (schema: z.ZodSchema) => ({
+    validator: zodValidator(schema),
+    zodSchema: schema,
+  });
 
   for (const tool of tools) {
     if (isZodSchema(tool)) {
       // Any Zod schema - use description or generated name
       const name = getSchemaName(tool, `Schema_${result.size}`);
-      result.set(name, tool);
+      result.set(name, fromZod(tool));
+    } else if (typeof tool === "object" && "validator" in tool) {
+      result.set(tool.name, {
+        validator: tool.validator,
+        description: tool.description,
+      });
     } else if (typeof tool === "object" && "name" in tool) {
       // Already in correct format or structured tool
       if ("schema" in tool && tool.schema) {
-        result.set(tool.name, tool.schema as z.ZodSchema);
+        if (isZodSchema(tool.schema)) {
+          result.set(tool.name, fromZod(tool.schema));
+        } else {
+          // Structured tool defined with a JSON schema
+          result.set(tool.name, {
+            validator: jsonSchemaValidator(
+              tool.schema as Record<string, unknown>
+            ),
+            description: tool.description,
+          });
+        }
       } else if ("parameters" in tool) {
-        // Convert parameters to passthrough schema
-        result.set(tool.name, z.object({}).passthrough());
+        result.set(tool.name, {
+          validator: jsonSchemaValidator(tool.parameters),
+          description: tool.description,
+        });
       }
     } else if (typeof tool === "function") {
-      result.set(tool.name, z.object({}).passthrough());
+      result.set(tool.name, fromZod(z.object({}).passthrough()));
     }
   }
 
   return result;
 }
 
+/**
+ * Present validation issues as Zod issues, which they already are for Zod
+ * tools.
+ */
+function toZodIssues(issues: ValidationIssue[]): z.ZodIssue[] {
+  return issues.map(
+    (issue) => ({ code: z.ZodIssueCode.custom, ...issue }) as z.ZodIssue
+  );
+}
+
+/**
+ * The last validation result of a tool call, if it has one.
+ */
+function lastVerdict(
+  messages: BaseMessage[],
+  toolCallId: string
+): ToolMessage | undefined {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i];
+    if (msg instanceof ToolMessage && msg.tool_call_id === toolCallId) {
+      return msg;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The issues behind a failed validation result.
+ */
+function verdictIssues(verdict: ToolMessage | undefined): z.ZodIssue[] {
+  const error = verdict?.artifact;
+  if (error instanceof z.ZodError || error instanceof ValidationError) {
+    return toZodIssues(error.issues);
+  }
+  const message =
+    error instanceof Error
+      ? error.message
+      : String(verdict?.content ?? "The tool call was never validated");
+  return [{ code: z.ZodIssueCode.custom, path: [], message }];
+}
+
+/**
+ * Describe patches that were never applied as issues of their tool call.
+ */
+function patchFailureIssues(error: Error): z.ZodIssue[] {
+  if (error instanceof ValidationError) {
+    return toZodIssues(error.issues);
+  }
+  let path: string[] = [];
+  if (error instanceof PatchApplicationError) {
+    try {
+      path = parseJsonPointer(error.path);
+    } catch {
+      // Leave malformed paths pointing at the whole document
+    }
+  }
+  return [{ code: z.ZodIssueCode.custom, path, message: error.message }];
+}
+
 /**
  * Create an extractor that generates validated structured outputs using an LLM.
  *
@@ -277,7 +1046,10 @@ function ensureTools(tools: ToolType[]): Map<string, z.ZodSchema> {
  * // { name: "Alice", age: 30 }
  * ```
  */
-export function createExtractor(llm: BaseChatModel, options: ExtractorOptions) {
+export function createExtractor<const TTools extends readonly ToolType[]>(
+  llm: BaseChatModel,
+  options: ExtractorOptions<TTools>
+) {
   // Verify the LLM supports tool binding
   if (!llm.bindTools) {
     throw new Error(
@@ -294,23 +1066,55 @@ export function createExtractor(llm: BaseChatModel, options: ExtractorOptions) {
   const {
     tools,
     toolChoice,
+    mode = "extract",
+    collectionKey,
     enableInserts = false,
     enableUpdates = true,
+    updateStrategy = "json-patch",
     enableDeletes = false,
     existingSchemaPolicy = true,
+    relevance,
+    retryPolicy = {},
+    strict = false,
+    requireDeleteReasoning = false,
+    store,
+    autoRepair = true,
+    onEvent,
+    validators: semanticValidators = {},
+    fieldPolicies = {},
+    arrayKeys = {},
   } = options;
 
   // Convert tools to schemas
-  const toolSchemas = ensureTools(tools);
-  const toolNames = Array.from(toolSchemas.keys());
+  const toolDefinitions = ensureTools(tools);
+  const toolNames = Array.from(toolDefinitions.keys());
+  const validators = new Map(
+    Array.from(toolDefinitions, ([name, { validator }]) => [name, validator])
+  );
 
-  // Add patch schemas
-  toolSchemas.set("PatchDoc", PatchDocSchema);
-  toolSchemas.set("PatchFunctionErrors", PatchFunctionErrorsSchema);
+  // Add patch schemas; keyed array items are only offered for tools that
+  // declare array keys
+  const updateSchema = {
+    "json-patch": createPatchDocSchema({
+      arrayKeys: toolNames.some(hasArrayKeys),
+    }),
+    "merge-patch": MergePatchDocSchema,
+    replace: ReplaceDocSchema,
+  }[updateStrategy];
+  validators.set("PatchDoc", zodValidator(updateSchema));
+  validators.set(
+    "PatchFunctionErrors",
+    zodValidator(PatchFunctionErrorsSchema)
+  );
 
-  // Register RemoveDoc as a passthrough since it's dynamically created per-invocation
-  if (enableDeletes) {
-    toolSchemas.set("RemoveDoc", z.object({ json_doc_id: z.string() }).passthrough());
+  /**
+   * RemoveDoc only accepts the ids of the documents being updated, so its
+   * schema is created per invocation.
+   */
+  function createRemovalSchema(existing: ExistingType) {
+    return createRemoveDocSchema(existingIds(validateExisting(existing)), {
+      requireReasoning: requireDeleteReasoning,
+    });
   }
 
   /**
@@ -366,54 +1170,338 @@ export function createExtractor(llm: BaseChatModel, options: ExtractorOptions) {
   }
   // Create validation node
   const validator = new ValidationNode(
-    Array.from(toolSchemas.entries()).map(([name, schema]) => {
-      if (isZodSchema(schema)) {
-        return schema.describe(name);
+    Array.from(validators, ([name, validator]) => ({ name, validator })),
+    { formatError: (error, call) => formatValidationError(error, call) }
+  );
+
+  /**
+   * Describe a failed tool call for the repair prompt. Issues are anchored
+   * to the JSON Pointers PatchFunctionErrors expects, with the current value
+   * and the relevant subschema; other errors are shown with the full schema.
+   */
+  function formatValidationError(
+    error: Error,
+    call: ToolCall,
+    toolValidator = validators.get(call.name)
+  ): string {
+    const instructions =
+      `Please use PatchFunctionErrors to fix all validation errors ` +
+      `for json_doc_id=[${call.id}].`;
+    const schema = toolValidator?.toJsonSchema();
+    if (
+      schema &&
+      (error instanceof z.ZodError || error instanceof ValidationError) &&
+      error.issues.length > 0
+    ) {
+      const report = describeIssuesInContext(error.issues, call.args, schema);
+      return (
+        `Validation errors:\n\n${report}\n\n${instructions} ` +
+        `Patch the paths listed above.`
+      );
+    }
+    const jsonSchema = schema ? JSON.stringify(schema, null, 2) : "{}";
+    return (
+      `Error:\n\n\`\`\`\n${error.message}\n\`\`\`\n` +
+      `Expected Parameter Schema:\n\n\`\`\`json\n${jsonSchema}\n\`\`\`\n` +
+      instructions
+    );
+  }
+
+  /**
+   * Coerce the arguments of a tool call that failed schema validation.
+   * Returns the repaired arguments and their parsed value if that fixed
+   * every issue, and undefined otherwise. A few rounds are tried since one
+   * fix can reveal another, e.g. an object wrapped in an array whose fields
+   * then fail.
+   */
+  async function coerceToolCall(
+    call: ToolCall,
+    error: unknown
+  ): Promise<
+    | { args: Record<string, unknown>; value: unknown; coercions: Coercion[] }
+    | undefined
+  > {
+    const toolValidator = validators.get(call.name);
+    if (
+      !toolValidator ||
+      !(error instanceof z.ZodError || error instanceof ValidationError)
+    ) {
+      return undefined;
+    }
+    const schema = toolValidator.toJsonSchema();
+    let args = call.args as Record<string, unknown>;
+    let issues: ValidationIssue[] = error.issues;
+    const coercions: Coercion[] = [];
+    for (let round = 0; round < 3; round++) {
+      const coerced = coerceToSchema(args, issues, schema);
+      if (coerced.coercions.length === 0) {
+        return undefined;
       }
-      return schema;
-    }),
-    {
-      formatError: (error, call, schema) => {
-        const jsonSchema = isZodSchema(schema)
-          ? JSON.stringify(zodToJsonSchema(schema as z.ZodSchema), null, 2)
-          : "{}";
-        return (
-          `Error:\n\n\`\`\`\n${error.message}\n\`\`\`\n` +
-          `Expected Parameter Schema:\n\n\`\`\`json\n${jsonSchema}\n\`\`\`\n` +
-          `Please use PatchFunctionErrors to fix all validation errors ` +
-          `for json_doc_id=[${call.id}].`
-        );
-      },
+      args = coerced.value as Record<string, unknown>;
+      coercions.push(...coerced.coercions);
+      const parsed = await runValidator(toolValidator, args);
+      if (parsed.success) {
+        return { args, value: parsed.value, coercions };
+      }
+      issues = parsed.issues;
     }
-  );
+    return undefined;
+  }
 
-  // Build the extraction tools for LLM binding
-  const extractionTools = toolNames.map((name) => {
-    const schema = toolSchemas.get(name);
-    if (isZodSchema(schema)) {
-      return zodToOpenAIFunction(schema as z.ZodObject<z.ZodRawShape>, name);
+  function collectionPrompt(): string {
+    const functions = toolNames.join(", ");
+    return (
+      `Extract every distinct instance mentioned in the conversation. ` +
+      `Call ${functions} once per instance, all in the same response. ` +
+      `Don't merge different instances into one call, don't skip any, ` +
+      `and don't call a function twice for the same instance.`
+    );
+  }
+
+  /**
+   * Run the semantic validators registered for a tool on a parsed value.
+   */
+  async function checkSemantics(
+    value: unknown,
+    context: SemanticValidationContext
+  ): Promise<ValidationIssue[]> {
+    const registered = (
+      semanticValidators as Record<
+        string,
+        SemanticValidator<unknown> | SemanticValidator<unknown>[] | undefined
+      >
+    )[context.toolName];
+    if (!registered) {
+      return [];
+    }
+    const rules = Array.isArray(registered) ? registered : [registered];
+    const results = await Promise.all(
+      rules.map((rule) => rule(value, context))
+    );
+    return results.flatMap((issues) =>
+      (issues || []).map((issue) => ({
+        path: parseJsonPointer(issue.path ?? ""),
+        message: issue.message,
+      }))
+    );
+  }
+
+  /**
+   * The JSON patches a PatchDoc call asks for. Merge patches and rewritten
+   * documents are turned into the patches from `target` to their result,
+   * so every strategy is applied, checked and reported the same way.
+   * Undefined if the merge patch or document isn't an object.
+   */
+  function proposedPatches(
+    toolName: string,
+    target: Record<string, unknown>,
+    args: Record<string, unknown>
+  ): JsonPatchOp[] | undefined {
+    switch (updateStrategy) {
+      case "json-patch":
+        return ensurePatches(args);
+      case "merge-patch": {
+        const mergePatch = ensureObject(args.patch);
+        return mergePatch
+          ? diffDocument(toolName, target, applyMergePatch(target, mergePatch))
+          : undefined;
+      }
+      case "replace": {
+        const document = ensureObject(args.document);
+        return document ? diffDocument(toolName, target, document) : undefined;
+      }
+    }
+  }
+
+  /**
+   * The existing document a tool call updates, if it comes from PatchDoc.
+   */
+  function existingDocument(
+    state: typeof ExtractionStateAnnotation.State,
+    toolCallId: string
+  ): SchemaInstance | undefined {
+    const updatedDocs = findLastAiMessage(state.messages)?.additional_kwargs
+      ?.updated_docs as Record<string, string> | undefined;
+    const jsonDocId = updatedDocs?.[toolCallId];
+    return jsonDocId === undefined
+      ? undefined
+      : toInstances(state.existing).find((i) => i.recordId === jsonDocId);
+  }
+
+  /**
+   * How an update of an existing document breaks its tool's field policies.
+   */
+  function policyViolations(
+    toolName: string,
+    before: Record<string, unknown>,
+    after: Record<string, unknown>
+  ): FieldPolicyViolation[] {
+    const policies = (fieldPolicies as Record<string, FieldPolicies>)[toolName];
+    return policies ? checkFieldPolicies(before, after, policies) : [];
+  }
+
+  /**
+   * Whether a tool declares key fields for any of its arrays.
+   */
+  function hasArrayKeys(toolName: string): boolean {
+    const keys = (arrayKeys as Record<string, Record<string, string>>)[
+      toolName
+    ];
+    return Object.keys(keys ?? {}).length > 0;
+  }
+
+  /**
+   * The patches between two versions of a tool's document, with array
+   * items paired by their declared keys.
+   */
+  function diffDocument(
+    toolName: string,
+    before: unknown,
+    after: unknown
+  ): JsonPatchOp[] {
+    return diffJson(before, after, {
+      arrayKeys: (arrayKeys as Record<string, Record<string, string>>)[
+        toolName
+      ],
+    });
+  }
+
+  /**
+   * Tell the model which arrays of a tool's documents it can address by key.
+   */
+  function arrayKeyHint(toolName: string): string {
+    const keys = (arrayKeys as Record<string, Record<string, string>>)[
+      toolName
+    ];
+    const paths = Object.entries(keys ?? {}).map(
+      ([array, key]) => `${array}/[${key}=<${key}>]`
+    );
+    return paths.length > 0
+      ? `\n<array_keys>\nAddress items of these arrays by key rather than ` +
+          `index: ${paths.join(", ")}\n</array_keys>`
+      : "";
+  }
+
+  /**
+   * The JSON Schema of a tool's arguments as shown to the model, or
+   * `fallback` for tools without one.
+   */
+  function schemaJson(name: string, fallback: string): string {
+    const schema = validators.get(name)?.toJsonSchema();
+    return schema ? JSON.stringify(schema, null, 2) : fallback;
+  }
+
+  /**
+   * Convert a user tool to OpenAI function format for binding.
+   */
+  function toolFunction(name: string) {
+    const definition = toolDefinitions.get(name) as ToolDefinition;
+    if (definition.zodSchema) {
+      return zodToOpenAIFunction(
+        definition.zodSchema as z.ZodObject<z.ZodRawShape>,
+        name
+      );
     }
     return {
       type: "function" as const,
       function: {
         name,
-        description: "",
-        parameters: {},
+        description: definition.description ?? "",
+        parameters: definition.validator.toJsonSchema(),
       },
     };
-  });
+  }
+
+  // Build the extraction tools for LLM binding
+  const extractionTools = toolNames.map(toolFunction);
+
+  type BoundModel = ReturnType<typeof toolLlm.bindTools>;
+
+  function emit(startedAt: number, event: WithoutTiming<ExtractionEvent>) {
+    if (!onEvent) {
+      return;
+    }
+    const timestamp = Date.now();
+    onEvent({
+      ...event,
+      timestamp,
+      elapsedMs: timestamp - startedAt,
+    } as ExtractionEvent);
+  }
+
+  /**
+   * The attempt a tool call is on, given the repairs recorded in the state.
+   */
+  function attemptOf(
+    state: typeof ExtractionStateAnnotation.State,
+    toolCallId: string
+  ): number {
+    return 1 + (state.toolCallAttempts?.[toolCallId] ?? 0);
+  }
+
+  /**
+   * Call a tool-bound model. When the graph is streamed with the "custom"
+   * mode, the response is streamed and the partially-parsed arguments of
+   * calls to the user's tools are written to the stream as they grow.
+   */
+  async function callModel(
+    boundLlm: BoundModel,
+    messages: BaseMessage[],
+    config: LangGraphRunnableConfig
+  ): Promise<AIMessage> {
+    const { writer } = config;
+    if (!writer) {
+      return (await boundLlm.invoke(messages, config)) as AIMessage;
+    }
+
+    let acc: AIMessageChunk | undefined;
+    const lastArgs = new Map<string, string>();
+    for await (const chunk of await boundLlm.stream(messages, config)) {
+      acc = acc ? acc.concat(chunk) : chunk;
+      for (const tc of acc.tool_calls || []) {
+        const serialized = JSON.stringify(tc.args);
+        if (
+          !tc.id ||
+          !toolNames.includes(tc.name) ||
+          lastArgs.get(tc.id) === serialized
+        ) {
+          continue;
+        }
+        lastArgs.set(tc.id, serialized);
+        writer({
+          type: "partial",
+          toolCallId: tc.id,
+          toolName: tc.name,
+          args: tc.args,
+        });
+      }
+    }
+
+    return new AIMessage({
+      id: acc?.id,
+      content: acc?.content ?? "",
+      tool_calls: acc?.tool_calls,
+      invalid_tool_calls: acc?.invalid_tool_calls,
+      additional_kwargs: acc?.additional_kwargs,
+      response_metadata: acc?.response_metadata,
+      usage_metadata: acc?.usage_metadata,
+    });
+  }
 
   // Extract node - initial extraction without existing data
   async function extract(
     state: typeof ExtractionStateAnnotation.State,
-    config: RunnableConfig
+    config: LangGraphRunnableConfig
   ): Promise<Partial<typeof ExtractionStateAnnotation.State>> {
+    const collection = mode === "collection";
     const boundLlm = toolLlm.bindTools(extractionTools, {
-      tool_choice: toolChoice,
+      tool_choice: toolChoice ?? (collection ? "any" : undefined),
     });
+    const messages = collection
+      ? withSystemPrompt(state.messages, collectionPrompt())
+      : state.messages;
 
-    const response = await boundLlm.invoke(state.messages, config);
-    const aiMessage = response as AIMessage;
+    const aiMessage = await callModel(boundLlm, messages, config);
 
     if (!aiMessage.id) {
       aiMessage.id = uuidv4();
@@ -422,6 +1510,7 @@ export function createExtractor(llm: BaseChatModel, options: ExtractorOptions) {
     return {
       messages: [aiMessage],
       attempts: 1,
+      llmCalls: 1,
       msgId: aiMessage.id,
     };
   }
@@ -429,7 +1518,7 @@ export function createExtractor(llm: BaseChatModel, options: ExtractorOptions) {
   // Extract updates node - for updating existing schemas
   async function extractUpdates(
     state: typeof ExtractionStateAnnotation.State,
-    config: RunnableConfig
+    config: LangGraphRunnableConfig
   ): Promise<Partial<typeof ExtractionStateAnnotation.State>> {
     const existing = state.existing;
     if (!existing) {
@@ -446,89 +1535,88 @@ export function createExtractor(llm: BaseChatModel, options: ExtractorOptions) {
     }> = [];
 
     if (enableUpdates) {
-      updateTools.push(zodToOpenAIFunction(PatchDocSchema, "PatchDoc"));
+      updateTools.push(zodToOpenAIFunction(updateSchema, "PatchDoc"));
     }
 
     if (enableInserts) {
-      for (const name of toolNames) {
-        const schema = toolSchemas.get(name);
-        if (isZodSchema(schema)) {
-          updateTools.push(
-            zodToOpenAIFunction(schema as z.ZodObject<z.ZodRawShape>, name)
-          );
-        }
-      }
+      updateTools.push(...toolNames.map(toolFunction));
     }
 
+    // Only the most relevant documents are shown; all can be addressed
+    const shownExisting = relevance
+      ? await selectRelevant(
+          validatedExisting,
+          conversationText(state.messages),
+          relevance
+        )
+      : validatedExisting;
+    const hidden =
+      existingIds(validatedExisting).length - existingIds(shownExisting).length;
+
     // Build existing schemas context
     const schemaStrings: string[] = [];
-    if (typeof validatedExisting === "object" && !Array.isArray(validatedExisting)) {
-      for (const [k, v] of Object.entries(validatedExisting)) {
-        const schema = toolSchemas.get(k);
-        const schemaJson = isZodSchema(schema)
-          ? JSON.stringify(zodToJsonSchema(schema as z.ZodSchema), null, 2)
-          : "object";
+    if (typeof shownExisting === "object" && !Array.isArray(shownExisting)) {
+      for (const [k, v] of Object.entries(shownExisting)) {
         schemaStrings.push(
-          `<schema id="${k}">\n<instance>\n${JSON.stringify(v, null, 2)}\n</instance>\n<json_schema>\n${schemaJson}\n</json_schema></schema>`
+          `<schema id="${k}">\n<instance>\n${JSON.stringify(v, null, 2)}\n</instance>\n<json_schema>\n${schemaJson(k, "object")}\n</json_schema>${arrayKeyHint(k)}</schema>`
         );
       }
-    } else if (Array.isArray(validatedExisting)) {
-      for (const item of validatedExisting) {
-        if (Array.isArray(item)) {
-          const [id, typeName, record] = item;
-          const schema = toolSchemas.get(typeName);
-          const schemaJson = isZodSchema(schema)
-            ? JSON.stringify(zodToJsonSchema(schema as z.ZodSchema), null, 2)
-            : "object";
-          schemaStrings.push(
-            `<instance id="${id}" schema_type="${typeName}">\n${JSON.stringify(record, null, 2)}\n</instance>\n<json_schema>\n${schemaJson}\n</json_schema>`
-          );
-        } else {
-          const schema = toolSchemas.get(item.schemaName);
-          const schemaJson = isZodSchema(schema)
-            ? JSON.stringify(zodToJsonSchema(schema as z.ZodSchema), null, 2)
-            : "object";
-          schemaStrings.push(
-            `<instance id="${item.recordId}" schema_type="${item.schemaName}">\n${JSON.stringify(item.record, null, 2)}\n</instance>\n<json_schema>\n${schemaJson}\n</json_schema>`
-          );
-        }
+    } else if (Array.isArray(shownExisting)) {
+      // Each schema is shown once, before the instances that refer to it
+      const instances = shownExisting.map((item) =>
+        Array.isArray(item)
+          ? { recordId: item[0], schemaName: item[1], record: item[2] }
+          : item
+      );
+      for (const typeName of new Set(instances.map((i) => i.schemaName))) {
+        schemaStrings.push(
+          `<json_schema schema_type="${typeName}">\n${schemaJson(typeName, "object")}\n</json_schema>${arrayKeyHint(typeName)}`
+        );
+      }
+      for (const item of instances) {
+        schemaStrings.push(
+          `<instance id="${item.recordId}" schema_type="${item.schemaName}">\n${JSON.stringify(item.record, null, 2)}\n</instance>`
+        );
       }
     }
 
-    const existingMsg = `Generate JSONPatches to update the existing schema instances.${
+    const instructions = {
+      "json-patch":
+        "Generate JSONPatches to update the existing schema instances.",
+      "merge-patch":
+        "Generate JSON Merge Patches to update the existing schema instances.",
+      replace:
+        "Rewrite the existing schema instances that need updating, in full.",
+    }[updateStrategy];
+    const existingMsg = `${instructions}${
       enableInserts
         ? " If you need to extract or insert *new* instances, call the relevant function(s)."
         : ""
+    }${
+      hidden > 0
+        ? ` Only the existing instances most relevant to the conversation are shown; ${hidden} more are not.`
+        : ""
+    }${
+      Array.isArray(shownExisting)
+        ? " Each instance conforms to the json_schema with the same schema_type."
+        : ""
     }
 <existing>
 ${schemaStrings.join("\n")}
 </existing>`;
+    emit(state.startedAt, {
+      type: "existing_prompt_built",
+      documents: existingIds(shownExisting).length,
+      hiddenDocuments: hidden,
+      estimatedTokens: estimateTokens(existingMsg),
+    });
 
-    // Prepare messages with system context
-    let messages = [...state.messages];
-    if (messages[0] instanceof SystemMessage) {
-      const sysMsg = messages[0] as SystemMessage;
-      messages[0] = new SystemMessage({
-        content: `${sysMsg.content}\n\n${existingMsg}`,
-      });
-    } else {
-      messages = [new SystemMessage({ content: existingMsg }), ...messages];
-    }
+    const messages = withSystemPrompt(state.messages, existingMsg);
 
     // Handle deletions
-    let removalSchema: z.ZodSchema | undefined;
     if (enableDeletes && validatedExisting) {
-      const existingIds = Array.isArray(validatedExisting)
-        ? validatedExisting.map((e) =>
-            Array.isArray(e) ? e[0] : (e as SchemaInstance).recordId
-          )
-        : Object.keys(validatedExisting);
-      removalSchema = createRemoveDocSchema(existingIds);
       updateTools.push(
-        zodToOpenAIFunction(
-          removalSchema as z.ZodObject<z.ZodRawShape>,
-          "RemoveDoc"
-        )
+        zodToOpenAIFunction(createRemovalSchema(existing), "RemoveDoc")
       );
     }
 
@@ -537,12 +1625,16 @@ ${schemaStrings.join("\n")}
     });
 
     try {
-      const response = await boundLlm.invoke(messages, config);
-      const aiMessage = response as AIMessage;
+      const callStarted = Date.now();
+      const aiMessage = await callModel(boundLlm, messages, config);
+      const durationMs = Date.now() - callStarted;
 
       // Process tool calls and apply patches
       const resolvedToolCalls: ToolCall[] = [];
       const updatedDocs: Record<string, string> = {};
+      const appliedPatches: Record<string, JsonPatchOp[]> = {};
+      const patchFailures: Record<string, Error> = {};
+      const patchErrors: ToolMessage[] = [];
 
       for (const tc of aiMessage.tool_calls || []) {
         if (tc.name === "PatchDoc") {
@@ -575,15 +1667,76 @@ ${schemaStrings.join("\n")}
           }
 
           if (target) {
-            const patches = ensurePatches(args);
-            if (patches.length > 0) {
-              const patched = applyJsonPatches(target, patches);
-              resolvedToolCalls.push({
-                id: tc.id || uuidv4(),
-                name: toolName,
-                args: patched,
+            const patches = proposedPatches(toolName, target, args);
+            if (!patches) {
+              // Keep the document as it was and ask for the update again
+              const id = tc.id || uuidv4();
+              const rejection = formatMissingUpdate(
+                updateStrategy === "merge-patch" ? "patch" : "document",
+                target,
+                id,
+                toolName
+              );
+              appliedPatches[id] = [];
+              patchFailures[id] = rejection.artifact;
+              patchErrors.push(rejection);
+              resolvedToolCalls.push({ id, name: toolName, args: target });
+              updatedDocs[id] = jsonDocId;
+            } else if (patches.length > 0) {
+              const id = tc.id || uuidv4();
+              const event = { toolCallId: id, toolName, attempt: 1, jsonDocId };
+              emit(state.startedAt, {
+                type: "patch_proposed",
+                ...event,
+                patches,
+                durationMs,
               });
-              updatedDocs[tc.id || ""] = jsonDocId;
+              let patched: Record<string, unknown>;
+              let failure: PatchApplicationError | undefined;
+              try {
+                patched = applyJsonPatches(target, patches, {
+                  mode: "lenient",
+                });
+              } catch (e) {
+                if (!(e instanceof PatchApplicationError)) throw e;
+                failure = e;
+                patched = e.document as Record<string, unknown>;
+              }
+              const violations = policyViolations(toolName, target, patched);
+              if (violations.length > 0) {
+                // Reject every patch, even those that didn't break a policy
+                emit(state.startedAt, {
+                  type: "field_policy_violated",
+                  ...event,
+                  violations,
+                });
+                const rejection = formatFieldPolicyViolations(
+                  violations,
+                  target,
+                  id,
+                  toolName
+                );
+                patched = target;
+                appliedPatches[id] = [];
+                patchFailures[id] = rejection.artifact;
+                patchErrors.push(rejection);
+              } else if (failure) {
+                appliedPatches[id] = patches.slice(0, failure.opIndex);
+                patchFailures[id] = failure;
+                patchErrors.push(
+                  formatPatchApplicationError(failure, id, toolName)
+                );
+              } else {
+                appliedPatches[id] = patches;
+                emit(state.startedAt, {
+                  type: "patch_applied",
+                  ...event,
+                  args: patched,
+                  diff: diffDocument(toolName, target, patched),
+                });
+              }
+              resolvedToolCalls.push({ id, name: toolName, args: patched });
+              updatedDocs[id] = jsonDocId;
             }
           }
         } else {
@@ -610,9 +1763,12 @@ ${schemaStrings.join("\n")}
       }
 
       return {
-        messages: [resultMessage],
+        messages: [resultMessage, ...patchErrors],
         attempts: 1,
+        llmCalls: 1,
         msgId: resultMessage.id,
+        appliedPatches,
+        patchFailures,
       };
     } catch (e) {
       return {
@@ -622,26 +1778,233 @@ ${schemaStrings.join("\n")}
           }),
         ],
         attempts: 1,
+        llmCalls: 1,
       };
     }
   }
 
-  // Validate node
+  // Validate node - validates tool calls that don't have a response yet
   async function validate(
     state: typeof ExtractionStateAnnotation.State,
-    config: RunnableConfig
-  ): Promise<{ messages: ToolMessage[] }> {
-    const result = await validator.invoke({ messages: state.messages }, config);
-    return result as { messages: ToolMessage[] };
+    config: LangGraphRunnableConfig
+  ): Promise<{
+    messages: Array<ToolMessage | MessageOp>;
+    autoRepairs?: AutoRepair[];
+    appliedPatches?: Record<string, JsonPatchOp[]>;
+    validCalls?: Record<string, unknown>;
+  }> {
+    const lastAi = findLastAiMessage(state.messages);
+    if (!lastAi) {
+      return { messages: [] };
+    }
+    const answered = new Set(
+      state.messages
+        .slice(state.messages.indexOf(lastAi) + 1)
+        .filter((m): m is ToolMessage => m instanceof ToolMessage)
+        .map((m) => m.tool_call_id)
+    );
+    // Calls that passed in an earlier round had their results deleted so
+    // they don't mix with repairs, but needn't be validated again
+    const unanswered = (lastAi.tool_calls || []).filter(
+      (tc) =>
+        !answered.has(tc.id || "") && !(tc.id && tc.id in state.validCalls)
+    );
+    const removals =
+      enableDeletes && state.existing
+        ? unanswered.filter((tc) => tc.name === "RemoveDoc")
+        : [];
+    const pending = new AIMessage({
+      content: lastAi.content,
+      tool_calls: unanswered.filter((tc) => !removals.includes(tc)),
+    });
+    const validated = (await validator.invoke(
+      [pending],
+      config
+    )) as ToolMessage[];
+    if (removals.length > 0 && state.existing) {
+      const removalValidator = zodValidator(
+        createRemovalSchema(state.existing)
+      );
+      const removalNode = new ValidationNode(
+        [{ name: "RemoveDoc", validator: removalValidator }],
+        {
+          formatError: (error, call) =>
+            formatValidationError(error, call, removalValidator),
+        }
+      );
+      validated.push(
+        ...((await removalNode.invoke(
+          [new AIMessage({ content: "", tool_calls: removals })],
+          config
+        )) as ToolMessage[])
+      );
+    }
+
+    const toolCalls = (lastAi.tool_calls || []).map((tc) => ({
+      id: tc.id || "",
+      name: tc.name,
+      args: tc.args as Record<string, unknown>,
+    }));
+
+    // Fix what can be fixed without the model
+    const messageOps: MessageOp[] = [];
+    const autoRepairs: AutoRepair[] = [];
+    const appliedPatches: Record<string, JsonPatchOp[]> = {};
+    if (autoRepair) {
+      for (const [i, msg] of validated.entries()) {
+        const call = toolCalls.find((tc) => tc.id === msg.tool_call_id);
+        if (!msg.additional_kwargs?.is_error || !call) {
+          continue;
+        }
+        const repaired = await coerceToolCall(call, msg.artifact);
+        if (!repaired) {
+          continue;
+        }
+        // Coercions can't change protected fields of an existing document
+        // either; those calls are left for the model to repair
+        const existing = existingDocument(state, call.id);
+        const violations = existing
+          ? policyViolations(call.name, existing.record, repaired.args)
+          : [];
+        if (violations.length > 0) {
+          emit(state.startedAt, {
+            type: "field_policy_violated",
+            toolCallId: call.id,
+            toolName: call.name,
+            attempt: attemptOf(state, call.id),
+            jsonDocId: existing?.recordId,
+            violations,
+          });
+          continue;
+        }
+        call.args = repaired.args;
+        messageOps.push({ op: "update_tool_call", target: call });
+        autoRepairs.push({
+          toolCallId: call.id,
+          toolName: call.name,
+          coercions: repaired.coercions,
+        });
+        appliedPatches[call.id] = coercionPatches(repaired.coercions);
+        validated[i] = new ToolMessage({
+          content: JSON.stringify(repaired.value),
+          tool_call_id: call.id,
+          name: call.name,
+          status: "success",
+          artifact: repaired.value,
+        });
+        config.writer?.({
+          type: "repair",
+          toolCallId: call.id,
+          toolName: call.name,
+          args: repaired.args,
+        });
+        emit(state.startedAt, {
+          type: "auto_repaired",
+          toolCallId: call.id,
+          toolName: call.name,
+          attempt: attemptOf(state, call.id),
+          coercions: repaired.coercions,
+        });
+      }
+    }
+
+    // Check the calls that passed schema validation against business rules
+    const result = await Promise.all(
+      validated.map(async (msg) => {
+        const call = toolCalls.find((tc) => tc.id === msg.tool_call_id);
+        if (msg.additional_kwargs?.is_error || !call) {
+          return msg;
+        }
+        const issues = await checkSemantics(msg.artifact, {
+          toolCallId: call.id,
+          toolName: call.name,
+          toolCalls,
+          existing: state.existing,
+        });
+        if (issues.length === 0) {
+          return msg;
+        }
+        const error = new ValidationError(describeIssues(issues), issues);
+        return new ToolMessage({
+          content: formatValidationError(error, call),
+          tool_call_id: call.id,
+          name: call.name,
+          status: "error",
+          artifact: error,
+          additional_kwargs: { is_error: true },
+        });
+      })
+    );
+
+    for (const msg of result) {
+      msg.id = msg.id || uuidv4();
+      const valid = !msg.additional_kwargs?.is_error;
+      const toolCallId = msg.tool_call_id;
+      const toolName = msg.name ?? "";
+      const error = valid
+        ? undefined
+        : msg.artifact instanceof Error
+          ? msg.artifact.message
+          : String(msg.content);
+      config.writer?.({
+        type: "validation",
+        toolCallId,
+        toolName,
+        valid,
+        error,
+      });
+      const attempt = attemptOf(state, toolCallId);
+      emit(
+        state.startedAt,
+        error === undefined
+          ? { type: "tool_call_validated", toolCallId, toolName, attempt }
+          : {
+              type: "validation_failed",
+              toolCallId,
+              toolName,
+              attempt,
+              error,
+            }
+      );
+      if (valid && toolName === "RemoveDoc") {
+        const removal = msg.artifact as {
+          json_doc_id: string;
+          reasoning?: string;
+        };
+        emit(state.startedAt, {
+          type: "doc_removed",
+          toolCallId,
+          jsonDocId: removal.json_doc_id,
+          ...(removal.reasoning ? { reasoning: removal.reasoning } : {}),
+        });
+      }
+    }
+    return {
+      messages: [...messageOps, ...result],
+      autoRepairs,
+      appliedPatches,
+      validCalls: Object.fromEntries(
+        result
+          .filter((msg) => !msg.additional_kwargs?.is_error)
+          .map((msg) => [msg.tool_call_id, msg.artifact])
+      ),
+    };
   }
 
   // Patch node - fix validation errors
   async function patch(
     state: typeof ExtractionStateAnnotation.State,
-    config: RunnableConfig
+    config: LangGraphRunnableConfig
   ): Promise<Partial<typeof ExtractionStateAnnotation.State>> {
+    const targetId = state.toolCallId;
+    const original = findToolCall(state.messages, targetId);
     const patchTools = [
-      zodToOpenAIFunction(PatchFunctionErrorsSchema, "PatchFunctionErrors"),
+      zodToOpenAIFunction(
+        createPatchFunctionErrorsSchema({
+          arrayKeys: original !== undefined && hasArrayKeys(original.name),
+        }),
+        "PatchFunctionErrors"
+      ),
       zodToOpenAIFunction(
         createPatchFunctionNameSchema(toolNames) as z.ZodObject<z.ZodRawShape>,
         "PatchFunctionName"
@@ -650,66 +2013,133 @@ ${schemaStrings.join("\n")}
 
     const boundLlm = toolLlm.bindTools(patchTools, { tool_choice: "any" });
 
-    try {
-      const filteredMessages = getHistoryForToolCall(state.messages, state.toolCallId);
-      const response = await boundLlm.invoke(filteredMessages, config);
-      const aiMessage = response as AIMessage;
-
-      // Apply patches to fix errors
-      const messageOps: Array<{
-        op: string;
-        target: unknown;
-      }> = [];
+    const delay = backoffDelay(state.toolCallAttempts?.[targetId] ?? 0);
+    if (delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
 
+    const filteredMessages = getHistoryForToolCall(state.messages, targetId);
+    const callStarted = Date.now();
+    const aiMessage = await callModel(boundLlm, filteredMessages, config);
+    const durationMs = Date.now() - callStarted;
+    // The attempt this repair produces
+    const attempt = attemptOf(state, targetId) + 1;
+
+    const existing = existingDocument(state, targetId);
+    const messageOps: MessageOp[] = [];
+    const feedback: ToolMessage[] = [];
+    const applied: JsonPatchOp[] = [];
+    // Whether the last patch list left the call half-patched
+    let failed: Error | null | undefined;
+
+    if (original) {
+      let { name, args } = original;
+
+      // Apply fixes in order; stop at the first patch list that fails so
+      // the model can re-issue the remaining patches against the snapshot.
       for (const tc of aiMessage.tool_calls || []) {
-        const args = tc.args as Record<string, unknown>;
-        const targetId = state.toolCallId;
-
-        if (tc.name === "PatchFunctionName" && args.fixed_name) {
-          messageOps.push({
-            op: "update_tool_name",
-            target: { id: targetId, name: args.fixed_name },
+        const tcArgs = tc.args as Record<string, unknown>;
+        if (tc.name === "PatchFunctionName" && tcArgs.fixed_name) {
+          const from = name;
+          name = String(tcArgs.fixed_name);
+          emit(state.startedAt, {
+            type: "tool_renamed",
+            toolCallId: targetId,
+            from,
+            to: name,
+            attempt,
           });
         } else if (tc.name === "PatchFunctionErrors") {
-          const patches = ensurePatches(args);
-          if (patches.length > 0) {
-            // Find original tool call and apply patches
-            for (const msg of state.messages) {
-              if (isAIMessage(msg)) {
-                for (const origTc of msg.tool_calls || []) {
-                  if (origTc.id === targetId) {
-                    const patchedArgs = applyJsonPatches(
-                      origTc.args as Record<string, unknown>,
-                      patches
-                    );
-                    messageOps.push({
-                      op: "update_tool_call",
-                      target: {
-                        id: targetId,
-                        name: origTc.name,
-                        args: patchedArgs,
-                      },
-                    });
-                  }
-                }
-              }
-            }
+          const patches = ensurePatches(tcArgs);
+          const event = { toolCallId: targetId, toolName: name, attempt };
+          emit(state.startedAt, {
+            type: "patch_proposed",
+            ...event,
+            patches,
+            durationMs,
+          });
+          let patched: Record<string, unknown>;
+          let failure: PatchApplicationError | undefined;
+          try {
+            patched = applyJsonPatches(args, patches, { mode: "lenient" });
+          } catch (e) {
+            if (!(e instanceof PatchApplicationError)) throw e;
+            failure = e;
+            patched = e.document as Record<string, unknown>;
           }
+          const violations = existing
+            ? policyViolations(name, existing.record, patched)
+            : [];
+          if (violations.length > 0) {
+            emit(state.startedAt, {
+              type: "field_policy_violated",
+              ...event,
+              jsonDocId: existing?.recordId,
+              violations,
+            });
+            const rejection = formatFieldPolicyViolations(
+              violations,
+              args,
+              targetId,
+              name
+            );
+            failed = rejection.artifact;
+            feedback.push(rejection);
+            break;
+          }
+          if (failure) {
+            args = patched;
+            applied.push(...patches.slice(0, failure.opIndex));
+            failed = failure;
+            feedback.push(formatPatchApplicationError(failure, targetId, name));
+            break;
+          }
+          failed = null;
+          const before = args;
+          args = patched;
+          applied.push(...patches);
+          emit(state.startedAt, {
+            type: "patch_applied",
+            ...event,
+            args,
+            diff: diffDocument(name, before, args),
+          });
         }
       }
 
       messageOps.push({
-        op: "delete",
-        target: state.toolCallId,
+        op: "update_tool_call",
+        target: { id: targetId, name, args },
       });
+      config.writer?.({
+        type: "repair",
+        toolCallId: targetId,
+        toolName: name,
+        args,
+      });
+    }
 
-      return {
-        messages: [aiMessage, ...messageOps] as any,
-        attempts: state.bumpAttempt ? 1 : 0,
-      };
-    } catch {
-      return {};
+    // Drop the stale validation result so the call gets revalidated
+    for (const msg of state.messages) {
+      if (
+        msg instanceof ToolMessage &&
+        msg.tool_call_id === targetId &&
+        msg.id
+      ) {
+        messageOps.push({ op: "delete", target: msg.id });
+      }
     }
+
+    return {
+      messages: [...feedback, ...messageOps] as any,
+      attempts: state.bumpAttempt ? 1 : 0,
+      toolCallAttempts: { [targetId]: 1 },
+      llmCalls: 1,
+      appliedPatches: { [targetId]: applied },
+      ...(failed !== undefined
+        ? { patchFailures: { [targetId]: failed } }
+        : {}),
+    };
   }
 
   // Delete tool call node - removes successful validation ToolMessages
@@ -741,6 +2171,26 @@ ${schemaStrings.join("\n")}
     return undefined;
   }
 
+  function findToolCall(
+    messages: BaseMessage[],
+    toolCallId: string
+  ): ToolCall | undefined {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const msg = messages[i];
+      if (isAIMessage(msg)) {
+        const tc = (msg.tool_calls || []).find((c) => c.id === toolCallId);
+        if (tc) {
+          return {
+            id: toolCallId,
+            name: tc.name,
+            args: tc.args as Record<string, unknown>,
+          };
+        }
+      }
+    }
+    return undefined;
+  }
+
   // Validation routing
   function validateOrRetry(
     state: typeof ExtractionStateAnnotation.State
@@ -752,13 +2202,46 @@ ${schemaStrings.join("\n")}
     return "extractUpdates";
   }
 
+  /**
+   * Delay before the next repair of a tool call that has already been
+   * repaired `repairs` times.
+   */
+  function backoffDelay(repairs: number): number {
+    const { backoff } = retryPolicy;
+    if (!backoff) {
+      return 0;
+    }
+    const delay = backoff.initialDelayMs * (backoff.multiplier ?? 2) ** repairs;
+    return Math.min(delay, backoff.maxDelayMs ?? Infinity);
+  }
+
+  function isRetryable(
+    state: typeof ExtractionStateAnnotation.State,
+    msg: ToolMessage
+  ): boolean {
+    if (!retryPolicy.isRetryable) {
+      return true;
+    }
+    const toolCall = findToolCall(state.messages, msg.tool_call_id);
+    if (!toolCall) {
+      return false;
+    }
+    const error =
+      msg.artifact instanceof Error
+        ? msg.artifact
+        : new Error(String(msg.content));
+    return retryPolicy.isRetryable(error, toolCall);
+  }
+
   // Handle retries after validation
   function handleRetries(
     state: typeof ExtractionStateAnnotation.State,
     config: RunnableConfig
   ): typeof END | Send[] {
     const maxAttempts =
-      (config.configurable?.max_attempts as number) || DEFAULT_MAX_ATTEMPTS;
+      (config.configurable?.max_attempts as number) ||
+      retryPolicy.maxAttempts ||
+      DEFAULT_MAX_ATTEMPTS;
 
     if (state.attempts >= maxAttempts) {
       return END;
@@ -767,6 +2250,7 @@ ${schemaStrings.join("\n")}
     const patchSends: Send[] = [];
     const delSends: Send[] = [];
     let bumped = false;
+    let llmBudget = (retryPolicy.maxLlmCalls ?? Infinity) - state.llmCalls;
 
     // Check for validation errors
     for (let i = state.messages.length - 1; i >= 0; i--) {
@@ -776,6 +2260,16 @@ ${schemaStrings.join("\n")}
       if (msg instanceof ToolMessage) {
         const isError = msg.additional_kwargs?.is_error;
         if (isError) {
+          const callAttempts =
+            1 + (state.toolCallAttempts?.[msg.tool_call_id] ?? 0);
+          if (
+            llmBudget <= 0 ||
+            callAttempts >= (retryPolicy.maxAttemptsPerToolCall ?? Infinity) ||
+            !isRetryable(state, msg)
+          ) {
+            continue;
+          }
+          llmBudget--;
           patchSends.push(
             new Send("patch", {
               ...state,
@@ -822,132 +2316,382 @@ ${schemaStrings.join("\n")}
 
   const compiled = builder.compile();
 
-  // Create the runnable interface
-  return {
-    async invoke(
-      input: ExtractionInputs | string | BaseMessage,
-      config?: RunnableConfig
-    ): Promise<ExtractionOutputs> {
-      // Coerce input to proper state type
-      let messages: BaseMessage[];
-      let existing: ExistingType | undefined;
-
-      if (typeof input === "string") {
-        // Simple string input
-        messages = [new HumanMessage({ content: input })];
-      } else if (isBaseMessage(input)) {
-        // Single BaseMessage input
-        messages = [input];
+  type GraphState = typeof ExtractionStateAnnotation.State;
+
+  /**
+   * Turn the final graph state into extraction outputs.
+   */
+  async function buildOutputs(
+    result: GraphState
+  ): Promise<ExtractionOutputs<TTools>> {
+    // Filter and format output
+    const msgId = result.msgId;
+    const aiMessage = result.messages.find(
+      (m: BaseMessage) => m.id === msgId && isAIMessage(m)
+    ) as AIMessage | undefined;
+
+    if (!aiMessage) {
+      emit(result.startedAt, {
+        type: "extraction_finished",
+        attempts: result.attempts,
+        llmCalls: result.llmCalls,
+        responses: 0,
+        errors: 0,
+      });
+      return {
+        messages: [],
+        responses: [],
+        namedResponses: [],
+        responseMetadata: [],
+        attempts: result.attempts,
+        errors: [],
+        autoRepairs: result.autoRepairs ?? [],
+        removedDocIds: [],
+        appliedPatches: {},
+        documentDiffs: {},
+        conflicts: [],
+      };
+    }
+
+    const namedResponses: NamedResponse[] = [];
+    const updatedDocs =
+      (aiMessage.additional_kwargs?.updated_docs as Record<string, string>) ||
+      {};
+
+    const errors: ExtractionError[] = [];
+    const removedDocIds: string[] = [];
+
+    for (const tc of aiMessage.tool_calls || []) {
+      if (tc.name === "PatchDoc" || tc.name === "PatchFunctionErrors") {
+        continue;
+      }
+
+      const id = tc.id || "";
+      const args = tc.args as Record<string, unknown>;
+      const repairAttempts = result.toolCallAttempts[id] ?? 0;
+      // Half-patched arguments are never a valid result
+      const failure = result.patchFailures?.[id];
+      if (failure) {
+        errors.push({
+          toolName: tc.name,
+          toolCallId: id,
+          args,
+          issues: patchFailureIssues(failure),
+          repairAttempts,
+        });
+        continue;
+      }
+      const removal = tc.name === "RemoveDoc" && enableDeletes;
+      if (!removal && !validators.has(tc.name)) {
+        errors.push({
+          toolName: tc.name,
+          toolCallId: id,
+          args,
+          issues: [
+            {
+              code: z.ZodIssueCode.custom,
+              path: [],
+              message: `Unrecognized tool name: "${tc.name}"`,
+            },
+          ],
+          repairAttempts,
+        });
+        continue;
+      }
+
+      // Every call was judged in the last validation round it took part
+      // in, so its validators (which may be slow lookups) aren't run again
+      if (!(id in result.validCalls)) {
+        errors.push({
+          toolName: tc.name,
+          toolCallId: id,
+          args,
+          issues: verdictIssues(lastVerdict(result.messages, id)),
+          repairAttempts,
+        });
+      } else if (removal) {
+        const { json_doc_id } = result.validCalls[id] as {
+          json_doc_id: string;
+        };
+        removedDocIds.push(json_doc_id);
       } else {
-        // ExtractionInputs object with { messages: ..., existing?: ... }
-        // Supports string, array of BaseMessage, or array of MessageDict
-        if (typeof input.messages === "string") {
-          messages = [new HumanMessage({ content: input.messages })];
-        } else if (
-          Array.isArray(input.messages) &&
-          isBaseMessageArray(input.messages)
-        ) {
-          messages = input.messages;
-        } else if (
-          Array.isArray(input.messages) &&
-          isMessageDictArray(input.messages)
-        ) {
-          messages = convertMessageDicts(input.messages);
-        } else {
-          messages = input.messages as BaseMessage[];
-        }
-        existing = input.existing;
+        namedResponses.push({
+          schemaName: tc.name,
+          value: result.validCalls[id],
+          id,
+          jsonDocId: updatedDocs[id],
+        });
       }
+    }
+
+    const instances = toInstances(result.existing);
+    const versions = new Map(
+      instances
+        .filter((instance) => instance.version !== undefined)
+        .map((instance) => [instance.recordId, instance.version])
+    );
+    const records = new Map(
+      instances.map((instance) => [instance.recordId, instance.record])
+    );
+
+    // In collection mode, keep the first of each instance and give it an id
+    // derived from its content
+    const recordIds = new Map<string, string>();
+    const seen = new Set<string>();
+    const responses =
+      mode === "collection"
+        ? namedResponses.filter((response) => {
+            const key = collectionKey
+              ? collectionKey(response as NamedResponse<TTools[number]>)
+              : canonicalJson(response.value);
+            const recordId =
+              response.jsonDocId ??
+              uuidv5(`${response.schemaName}\n${key}`, RECORD_ID_NAMESPACE);
+            if (seen.has(recordId)) {
+              return false;
+            }
+            seen.add(recordId);
+            recordIds.set(response.id, recordId);
+            return true;
+          })
+        : namedResponses;
+
+    emit(result.startedAt, {
+      type: "extraction_finished",
+      attempts: result.attempts,
+      llmCalls: result.llmCalls,
+      responses: responses.length,
+      errors: errors.length,
+    });
+
+    if (strict && errors.length > 0) {
+      throw new ExtractionFailedError(errors);
+    }
 
-      const result = await compiled.invoke({ messages, existing }, config);
+    return {
+      messages: [aiMessage],
+      responses: responses.map((r) => r.value),
+      namedResponses: responses as NamedResponse<TTools[number]>[],
+      responseMetadata: responses.map(({ id, jsonDocId }) => ({
+        id,
+        jsonDocId,
+        ...(recordIds.has(id) ? { recordId: recordIds.get(id) } : {}),
+        ...(jsonDocId && versions.has(jsonDocId)
+          ? { baseVersion: versions.get(jsonDocId) }
+          : {}),
+      })),
+      attempts: result.attempts,
+      errors,
+      autoRepairs: result.autoRepairs ?? [],
+      removedDocIds,
+      appliedPatches: Object.fromEntries(
+        responses
+          .filter((response) => response.jsonDocId !== undefined)
+          .map(({ id, jsonDocId }) => [
+            jsonDocId,
+            result.appliedPatches?.[id] ?? [],
+          ])
+      ),
+      documentDiffs: Object.fromEntries(
+        responses.flatMap(({ schemaName, jsonDocId, value }) =>
+          jsonDocId !== undefined && records.has(jsonDocId)
+            ? [
+                [
+                  jsonDocId,
+                  diffDocument(schemaName, records.get(jsonDocId), value),
+                ],
+              ]
+            : []
+        )
+      ),
+      conflicts: [],
+    };
+  }
 
-      // Filter and format output
-      const msgId = result.msgId;
-      const aiMessage = result.messages.find(
-        (m: BaseMessage) => m.id === msgId && isAIMessage(m)
-      ) as AIMessage | undefined;
+  /** What an extraction is invoked with, typed against the tools or not */
+  type Input =
+    | ExtractionInputs<TTools>
+    | ExtractionInputs
+    | string
+    | BaseMessage;
 
-      if (!aiMessage) {
-        return {
-          messages: [],
-          responses: [],
-          responseMetadata: [],
-          attempts: result.attempts,
-        };
+  /**
+   * Prepare the graph input for an extraction and report its start. With a
+   * store and a namespace, existing documents are loaded from the store:
+   * with `relevance`, the store's `topK` best matches for the conversation,
+   * or all of them if the search finds none.
+   */
+  async function start(input: Input) {
+    const startedAt = Date.now();
+    const graphInput = { ...coerceInput(input), startedAt };
+    const namespace = namespaceOf(input);
+    if (store && namespace && !graphInput.existing) {
+      const found = relevance
+        ? await store.search(namespace, conversationText(graphInput.messages), {
+            limit: relevance.topK,
+          })
+        : [];
+      const documents = found.length > 0 ? found : await store.list(namespace);
+      if (documents.length > 0) {
+        graphInput.existing = documents.map(
+          ({ key, schemaName, value, version }) => ({
+            recordId: key,
+            schemaName,
+            record: value,
+            ...(version !== undefined ? { version } : {}),
+          })
+        );
       }
+    }
+    emit(startedAt, {
+      type: "extraction_started",
+      mode: graphInput.existing ? "update" : "extract",
+    });
+    return graphInput;
+  }
 
-      const responses: z.infer<z.ZodSchema>[] = [];
-      const responseMetadata: Array<{ id: string; jsonDocId?: string }> = [];
-      const updatedDocs =
-        (aiMessage.additional_kwargs?.updated_docs as Record<string, string>) ||
-        {};
+  function namespaceOf(input: Input): string[] | undefined {
+    return typeof input === "object" && !isBaseMessage(input)
+      ? input.namespace
+      : undefined;
+  }
 
-      for (const tc of aiMessage.tool_calls || []) {
-        const schema = toolSchemas.get(tc.name);
-        if (
-          !schema ||
-          tc.name === "PatchDoc" ||
-          tc.name === "PatchFunctionErrors"
-        ) {
-          continue;
-        }
+  /**
+   * Save what an extraction changed to the store. Updates and removals only
+   * apply to documents still at the version they were read at; the others
+   * are left alone and returned as conflicts, and the remaining changes are
+   * written again without them. Each write is atomic, so without conflicts
+   * everything is saved at once.
+   */
+  async function save(
+    input: Input,
+    existing: ExistingType | undefined,
+    outputs: ExtractionOutputs<TTools>
+  ): Promise<DocumentConflict[]> {
+    const namespace = namespaceOf(input);
+    if (!store || !namespace) {
+      return [];
+    }
+    const { instances, changelog } = applyExtraction(existing, outputs);
+    const versions = new Map(
+      toInstances(existing).map((instance) => [
+        instance.recordId,
+        instance.version,
+      ])
+    );
+    const expected = (key: string) => {
+      const expectedVersion = versions.get(key);
+      return expectedVersion !== undefined ? { expectedVersion } : {};
+    };
+    const changed = new Set([...changelog.inserted, ...changelog.updated]);
+    let writes: StoreWrite[] = [
+      ...instances
+        .filter((instance) => changed.has(instance.recordId))
+        .map(({ recordId, schemaName, record }) => ({
+          op: "put" as const,
+          key: recordId,
+          schemaName,
+          value: record,
+          ...expected(recordId),
+        })),
+      ...changelog.removed.map((key) => ({
+        op: "delete" as const,
+        key,
+        ...expected(key),
+      })),
+    ];
 
-        try {
-          const validated = schema.parse(tc.args);
-          responses.push(validated);
-          responseMetadata.push({
-            id: tc.id || "",
-            jsonDocId: updatedDocs[tc.id || ""],
-          });
-        } catch {
-          // Silently skip tool calls that fail final validation
+    const conflicts: DocumentConflict[] = [];
+    while (writes.length > 0) {
+      try {
+        await store.write(namespace, writes);
+        break;
+      } catch (e) {
+        if (!(e instanceof ConcurrencyConflictError)) {
+          throw e;
         }
+        // Save the rest without the documents that changed
+        const keys = new Set(e.conflicts.map((c) => c.key));
+        conflicts.push(...e.conflicts);
+        writes = writes.filter((write) => !keys.has(write.key));
       }
+    }
+    return conflicts;
+  }
 
-      return {
-        messages: [aiMessage],
-        responses,
-        responseMetadata,
-        attempts: result.attempts,
-      };
-    },
+  function invoke(
+    input: ExtractionInputs<TTools> | string | BaseMessage,
+    config?: RunnableConfig
+  ): Promise<ExtractionOutputs<TTools>>;
+  function invoke<S extends string>(
+    input: UntypedExtractionInputs<S>,
+    config?: RunnableConfig
+  ): Promise<ExtractionOutputs<TTools>>;
+  async function invoke(
+    input: Input,
+    config?: RunnableConfig
+  ): Promise<ExtractionOutputs<TTools>> {
+    const graphInput = await start(input);
+    const result = await compiled.invoke(graphInput, config);
+    const outputs = await buildOutputs(result);
+    outputs.conflicts = await save(input, graphInput.existing, outputs);
+    return outputs;
+  }
 
-    async stream(
-      input: ExtractionInputs | string | BaseMessage,
-      config?: RunnableConfig
-    ) {
-      // Coerce input to proper state type
-      let messages: BaseMessage[];
-      let existing: ExistingType | undefined;
-
-      if (typeof input === "string") {
-        // Simple string input
-        messages = [new HumanMessage({ content: input })];
-      } else if (isBaseMessage(input)) {
-        // Single BaseMessage input
-        messages = [input];
+  /**
+   * Stream partially-parsed tool call arguments as the model generates
+   * them, followed by validation and repair events, and finally the
+   * extraction result.
+   */
+  function streamResponses(
+    input: ExtractionInputs<TTools> | string | BaseMessage,
+    config?: RunnableConfig
+  ): AsyncGenerator<ExtractionStreamEvent<TTools>>;
+  function streamResponses<S extends string>(
+    input: UntypedExtractionInputs<S>,
+    config?: RunnableConfig
+  ): AsyncGenerator<ExtractionStreamEvent<TTools>>;
+  async function* streamResponses(
+    input: Input,
+    config?: RunnableConfig
+  ): AsyncGenerator<ExtractionStreamEvent<TTools>> {
+    const graphInput = await start(input);
+    const stream = await compiled.stream(graphInput, {
+      ...config,
+      streamMode: ["custom", "values"],
+    });
+
+    let finalState: GraphState | undefined;
+    for await (const [mode, chunk] of stream) {
+      if (mode === "custom") {
+        yield chunk as ExtractionStreamEvent<TTools>;
       } else {
-        // ExtractionInputs object with { messages: ..., existing?: ... }
-        // Supports string, array of BaseMessage, or array of MessageDict
-        if (typeof input.messages === "string") {
-          messages = [new HumanMessage({ content: input.messages })];
-        } else if (
-          Array.isArray(input.messages) &&
-          isBaseMessageArray(input.messages)
-        ) {
-          messages = input.messages;
-        } else if (
-          Array.isArray(input.messages) &&
-          isMessageDictArray(input.messages)
-        ) {
-          messages = convertMessageDicts(input.messages);
-        } else {
-          messages = input.messages as BaseMessage[];
-        }
-        existing = input.existing;
+        finalState = chunk as GraphState;
       }
+    }
 
-      return compiled.stream({ messages, existing }, config);
+    if (!finalState) {
+      throw new Error("Extraction finished without producing a state.");
+    }
+    const outputs = await buildOutputs(finalState);
+    outputs.conflicts = await save(input, graphInput.existing, outputs);
+    yield { type: "result", result: outputs };
+  }
+
+  // Create the runnable interface
+  return {
+    invoke,
+
+    async stream(
+      input: ExtractionInputs<TTools> | string | BaseMessage,
+      config?: RunnableConfig
+    ) {
+      return compiled.stream(
+        { ...coerceInput(input), startedAt: Date.now() },
+        config
+      );
     },
+
+    streamResponses,
   };
 }
@@ -0,0 +1,151 @@
+import { formatJsonPointer, parseJsonPointer } from "./json-patch.js";
+import { deepEqual } from "./utils.js";
+
+/**
+ * How the model may change a field of an existing document:
+ * - "read-only": not at all
+ * - "append-only": items may be added to the end of an array, or text to
+ *   the end of a string, but existing content stays as it is
+ * - "immutable-once-set": it may be set while missing or null, but not
+ *   changed afterwards
+ */
+export type FieldPolicy = "read-only" | "append-only" | "immutable-once-set";
+
+/**
+ * Field policies of a schema, keyed by JSON Pointer glob. `*` matches any
+ * single key or index and `**` any number of them, e.g. `/id`, `/tags/*`
+ * or `/audit/**`.
+ */
+export type FieldPolicies = Record<string, FieldPolicy>;
+
+/**
+ * A change to an existing document that its field policies forbid.
+ */
+export interface FieldPolicyViolation {
+  /** JSON Pointer to the protected field */
+  path: string;
+  policy: FieldPolicy;
+  message: string;
+}
+
+/**
+ * Whether `path` matches `glob`, where `*` matches any single token and
+ * `**` any number of them.
+ */
+export function matchesGlob(glob: string[], path: string[]): boolean {
+  if (glob.length === 0) {
+    return path.length === 0;
+  }
+  const [token, ...rest] = glob;
+  if (token === "**") {
+    return (
+      matchesGlob(rest, path) ||
+      (path.length > 0 && matchesGlob(glob, path.slice(1)))
+    );
+  }
+  return (
+    path.length > 0 &&
+    (token === "*" || token === path[0]) &&
+    matchesGlob(rest, path.slice(1))
+  );
+}
+
+/**
+ * The paths of every value in `value`, parents before children.
+ */
+function collectPaths(
+  value: unknown,
+  path: string[],
+  paths: Map<string, string[]>
+): void {
+  paths.set(formatJsonPointer(path), path);
+  if (typeof value === "object" && value !== null) {
+    for (const [key, child] of Object.entries(value)) {
+      collectPaths(child, [...path, key], paths);
+    }
+  }
+}
+
+function valueAt(document: unknown, path: string[]): unknown {
+  let current = document;
+  for (const token of path) {
+    if (typeof current !== "object" || current === null) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[token];
+  }
+  return current;
+}
+
+function violation(
+  policy: FieldPolicy,
+  before: unknown,
+  after: unknown
+): string | undefined {
+  if (deepEqual(before, after)) {
+    return undefined;
+  }
+  switch (policy) {
+    case "read-only":
+      return "This field is read-only and must not be changed.";
+    case "immutable-once-set":
+      return before === undefined || before === null
+        ? undefined
+        : "This field is already set and must not be changed.";
+    case "append-only":
+      if (before === undefined) {
+        return undefined;
+      }
+      if (Array.isArray(before)) {
+        return Array.isArray(after) &&
+          before.every((item, i) => deepEqual(item, after[i]))
+          ? undefined
+          : "This field is append-only: add new items at the end, and don't change, remove or reorder existing ones.";
+      }
+      if (typeof before === "string") {
+        return typeof after === "string" && after.startsWith(before)
+          ? undefined
+          : "This field is append-only: add text at the end, and don't change the existing text.";
+      }
+      return "This field is append-only and its existing value must not be changed.";
+  }
+}
+
+/**
+ * Check an update of an existing document against its field policies.
+ * Only the outermost violation on each path is reported.
+ */
+export function checkFieldPolicies(
+  before: unknown,
+  after: unknown,
+  policies: FieldPolicies
+): FieldPolicyViolation[] {
+  const globs = Object.entries(policies).map(
+    ([glob, policy]) => [parseJsonPointer(glob), policy] as const
+  );
+  const paths = new Map<string, string[]>();
+  collectPaths(before, [], paths);
+  collectPaths(after, [], paths);
+
+  const violations: FieldPolicyViolation[] = [];
+  for (const [pointer, path] of paths) {
+    if (violations.some((v) => pointer.startsWith(`${v.path}/`))) {
+      continue;
+    }
+    for (const [glob, policy] of globs) {
+      if (!matchesGlob(glob, path)) {
+        continue;
+      }
+      const message = violation(
+        policy,
+        valueAt(before, path),
+        valueAt(after, path)
+      );
+      if (message) {
+        violations.push({ path: pointer, policy, message });
+        break;
+      }
+    }
+  }
+  return violations;
+}
@@ -0,0 +1,98 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import {
+  applyStoreWrites,
+  searchDocuments,
+  type DocumentStore,
+  type StoreWrite,
+  type StoredDocument,
+} from "./store.js";
+
+/**
+ * A DocumentStore that keeps each namespace in a JSON file under
+ * `directory`, e.g. `["memories", "user-1"]` in `memories/user-1.json`.
+ *
+ * Writes replace the file through a rename, so a crash never leaves a
+ * namespace half-written, and writes from this process are applied one at a
+ * time. It is not meant for several processes writing the same namespace.
+ */
+export class FileSystemDocumentStore implements DocumentStore {
+  private queues = new Map<string, Promise<void>>();
+
+  constructor(private readonly directory: string) {}
+
+  private file(namespace: string[]): string {
+    if (namespace.length === 0) {
+      throw new Error("Namespace must not be empty");
+    }
+    // encodeURIComponent leaves these as they are, so they would lead
+    // outside the directory
+    const relative = namespace.find((part) => part === "." || part === "..");
+    if (relative !== undefined) {
+      throw new Error(`Namespace part "${relative}" is not allowed`);
+    }
+    const parts = namespace.map((part) => encodeURIComponent(part));
+    const last = parts.pop() as string;
+    return join(this.directory, ...parts, `${last}.json`);
+  }
+
+  private async read(file: string): Promise<Map<string, StoredDocument>> {
+    let text: string;
+    try {
+      text = await readFile(file, "utf8");
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return new Map();
+      }
+      throw e;
+    }
+    const documents = JSON.parse(text) as StoredDocument[];
+    return new Map(documents.map((document) => [document.key, document]));
+  }
+
+  async get(namespace: string[], key: string) {
+    return (await this.read(this.file(namespace))).get(key);
+  }
+
+  async list(namespace: string[]) {
+    return Array.from((await this.read(this.file(namespace))).values());
+  }
+
+  async search(
+    namespace: string[],
+    query: string,
+    options: { limit?: number } = {}
+  ) {
+    return searchDocuments(await this.list(namespace), query, options.limit);
+  }
+
+  async put(namespace: string[], document: StoredDocument) {
+    await this.write(namespace, [{ op: "put", ...document }]);
+  }
+
+  async delete(namespace: string[], key: string) {
+    await this.write(namespace, [{ op: "delete", key }]);
+  }
+
+  async write(namespace: string[], writes: StoreWrite[]) {
+    const file = this.file(namespace);
+    const previous = this.queues.get(file) ?? Promise.resolve();
+    const next = previous.then(async () => {
+      const documents = await this.read(file);
+      applyStoreWrites(documents, writes);
+      const temporary = `${file}.${process.pid}.${Date.now()}.tmp`;
+      await mkdir(dirname(file), { recursive: true });
+      await writeFile(
+        temporary,
+        JSON.stringify(Array.from(documents.values()), null, 2)
+      );
+      await rename(temporary, file);
+    });
+    // Keep the queue going after a failed write
+    this.queues.set(
+      file,
+      next.catch(() => undefined)
+    );
+    await next;
+  }
+}
@@ -11,21 +11,116 @@
 export {
   createExtractor,
   type ExtractionInputs,
+  type UntypedExtractionInputs,
   type ExtractionOutputs,
+  type ExtractionEvent,
+  type ExtractionStreamEvent,
   type ExtractorOptions,
+  type NamedResponse,
+  type RetryPolicy,
   type MessageDict,
+  type SemanticIssue,
+  type SemanticValidationContext,
+  type SemanticValidator,
+  type AutoRepair,
 } from "./extractor.js";
 
+export {
+  applyExtraction,
+  type AppliedExtraction,
+  type ExtractionChangelog,
+} from "./upsert.js";
+
+export {
+  bm25Scorer,
+  embeddingScorer,
+  selectRelevant,
+  type RelevanceOptions,
+  type RelevanceScorer,
+} from "./relevance.js";
+
+export {
+  InMemoryDocumentStore,
+  searchDocuments,
+  type DocumentStore,
+  type StoredDocument,
+  type StoreWrite,
+} from "./store.js";
+
+export { FileSystemDocumentStore } from "./file-store.js";
+
+export {
+  coerceToSchema,
+  type Coercion,
+  type CoercionRule,
+} from "./coercion.js";
+
 export {
   ValidationNode,
   type ValidationNodeOptions,
 } from "./validation-node.js";
 
+export {
+  applyJsonPatches,
+  applyMergePatch,
+  invertJsonPatches,
+  parseJsonPointer,
+  formatJsonPointer,
+  type ApplyJsonPatchesOptions,
+} from "./json-patch.js";
+
+export { diffJson, type DiffOptions } from "./json-diff.js";
+
+export {
+  checkFieldPolicies,
+  type FieldPolicy,
+  type FieldPolicies,
+  type FieldPolicyViolation,
+} from "./field-policy.js";
+
+export {
+  jsonSchemaToZod,
+  subschemaAt,
+  type JsonSchema,
+} from "./json-schema.js";
+
+export {
+  zodValidator,
+  jsonSchemaValidator,
+  standardSchemaValidator,
+  customValidator,
+  describeIssuesInContext,
+  type StandardSchemaV1,
+} from "./validators.js";
+
+export { estimateTokens } from "./utils.js";
+
+export {
+  ConcurrencyConflictError,
+  ExtractionFailedError,
+  JsonSchemaConversionError,
+  PatchApplicationError,
+  ValidationError,
+} from "./errors.js";
+
 export {
   isZodSchema,
   getSchemaName,
+  namedSchema,
+  type NamedSchema,
+  type ToolName,
+  type ToolValue,
+  type TypedExisting,
+  type TypedSchemaInstance,
   type SchemaInstance,
   type ExistingType,
   type ToolType,
   type MessageOp,
+  type JsonPatchOp,
+  type ToolCall,
+  type ExtractionError,
+  type DocumentConflict,
+  type Validator,
+  type ValidationIssue,
+  type ValidationResult,
 } from "./types.js";
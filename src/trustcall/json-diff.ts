@@ -0,0 +1,310 @@
+import type { JsonPatchOp } from "./types.js";
+import { formatJsonPointer, parseJsonPointer } from "./json-patch.js";
+import { matchesGlob } from "./field-policy.js";
+import { deepEqual } from "./utils.js";
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function has(object: JsonObject, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/**
+ * Options for `diffJson`.
+ */
+export interface DiffOptions {
+  /**
+   * Key fields of arrays of objects, keyed by JSON Pointer glob of the
+   * array, e.g. `{ "/friends": "name" }`. A changed item is only compared
+   * with the item that had the same key.
+   */
+  arrayKeys?: Record<string, string>;
+}
+
+/**
+ * Compute RFC 6902 patches that turn `before` into `after`, such that
+ * `applyJsonPatches(before, diffJson(before, after))` deep-equals `after`.
+ *
+ * Objects are compared key by key, and a key renamed with its value
+ * unchanged becomes a `move`. Arrays are aligned with a longest common
+ * subsequence, so an insertion doesn't rewrite every later element;
+ * reordered elements become `move`s and changed elements are diffed in
+ * place, paired by key field, then by the fields they have in common, and
+ * only then by position. Values of different types are replaced outright.
+ *
+ * @example
+ * ```typescript
+ * diffJson({ tags: ["a", "b"] }, { tags: ["b", "a", "c"] });
+ * // [{ op: "move", from: "/tags/0", path: "/tags/1" },
+ * //  { op: "add", path: "/tags/2", value: "c" }]
+ * ```
+ */
+export function diffJson(
+  before: unknown,
+  after: unknown,
+  options: DiffOptions = {}
+): JsonPatchOp[] {
+  const patches: JsonPatchOp[] = [];
+  diffValue(before, after, [], patches, options);
+  return patches;
+}
+
+function diffValue(
+  before: unknown,
+  after: unknown,
+  path: Array<string | number>,
+  patches: JsonPatchOp[],
+  options: DiffOptions
+): void {
+  if (deepEqual(before, after)) {
+    return;
+  }
+  if (isObject(before) && isObject(after)) {
+    diffObject(before, after, path, patches, options);
+  } else if (Array.isArray(before) && Array.isArray(after)) {
+    diffArray(before, after, path, patches, options);
+  } else {
+    patches.push({
+      op: "replace",
+      path: formatJsonPointer(path),
+      value: after,
+    });
+  }
+}
+
+function diffObject(
+  before: JsonObject,
+  after: JsonObject,
+  path: Array<string | number>,
+  patches: JsonPatchOp[],
+  options: DiffOptions
+): void {
+  const removed = Object.keys(before).filter((key) => !has(after, key));
+  const added = Object.keys(after).filter((key) => !has(before, key));
+
+  for (const key of removed) {
+    const renamed = added.findIndex((other) =>
+      deepEqual(before[key], after[other])
+    );
+    if (renamed >= 0) {
+      const [to] = added.splice(renamed, 1) as [string];
+      patches.push({
+        op: "move",
+        from: formatJsonPointer([...path, key]),
+        path: formatJsonPointer([...path, to]),
+      });
+    } else {
+      patches.push({ op: "remove", path: formatJsonPointer([...path, key]) });
+    }
+  }
+  for (const key of added) {
+    patches.push({
+      op: "add",
+      path: formatJsonPointer([...path, key]),
+      value: after[key],
+    });
+  }
+  for (const key of Object.keys(after)) {
+    if (has(before, key)) {
+      diffValue(before[key], after[key], [...path, key], patches, options);
+    }
+  }
+}
+
+/**
+ * Pairs of indices of a longest common subsequence of `a` and `b`.
+ */
+function longestCommonSubsequence<T>(
+  a: T[],
+  b: T[],
+  equal: (x: T, y: T) => boolean
+): Array<[number, number]> {
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = equal(a[i], b[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (equal(a[i], b[j])) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * The key field of the array at `path`, if `arrayKeys` declares one.
+ */
+function arrayKeyOf(
+  path: Array<string | number>,
+  arrayKeys: Record<string, string> = {}
+): string | undefined {
+  const tokens = path.map(String);
+  const glob = Object.keys(arrayKeys).find((glob) =>
+    matchesGlob(parseJsonPointer(glob), tokens)
+  );
+  return glob === undefined ? undefined : arrayKeys[glob];
+}
+
+/**
+ * How many fields two objects have in common, or 0 if either isn't one.
+ */
+function commonFields(a: unknown, b: unknown): number {
+  return isObject(a) && isObject(b)
+    ? Object.keys(a).filter((key) => has(b, key) && deepEqual(a[key], b[key]))
+        .length
+    : 0;
+}
+
+function diffArray(
+  before: unknown[],
+  after: unknown[],
+  path: Array<string | number>,
+  patches: JsonPatchOp[],
+  options: DiffOptions
+): void {
+  const pointer = (index: number) => formatJsonPointer([...path, index]);
+  const keyField = arrayKeyOf(path, options.arrayKeys);
+  const keyOf = (value: unknown) =>
+    keyField !== undefined && isObject(value) && has(value, keyField)
+      ? String(value[keyField])
+      : undefined;
+  // Items with different keys are different items, never one changed
+  const distinct = (a: unknown, b: unknown) => {
+    const [keyA, keyB] = [keyOf(a), keyOf(b)];
+    return keyA !== undefined && keyB !== undefined && keyA !== keyB;
+  };
+
+  // For each element of `after`, the element of `before` it comes from, if
+  // any. Unchanged elements are matched first, then equal elements that
+  // moved, then changed elements with the same key or failing that the
+  // most fields in common, and what's left between matches is changed in
+  // place.
+  const source = new Array<number | undefined>(after.length).fill(undefined);
+  const used = new Set<number>();
+  for (const [i, j] of longestCommonSubsequence(before, after, deepEqual)) {
+    source[j] = i;
+    used.add(i);
+  }
+  for (let j = 0; j < after.length; j++) {
+    if (source[j] !== undefined) continue;
+    const i = before.findIndex(
+      (value, index) => !used.has(index) && deepEqual(value, after[j])
+    );
+    if (i >= 0) {
+      source[j] = i;
+      used.add(i);
+    }
+  }
+  const changed = new Set<number>();
+  const similarities = [
+    (a: unknown, b: unknown) =>
+      keyOf(a) !== undefined && keyOf(a) === keyOf(b) ? 1 : 0,
+    (a: unknown, b: unknown) => (distinct(a, b) ? 0 : commonFields(a, b)),
+  ];
+  for (const similarity of similarities) {
+    for (let j = 0; j < after.length; j++) {
+      if (source[j] !== undefined) continue;
+      let best = -1;
+      let bestScore = 0;
+      for (const [index, value] of before.entries()) {
+        const score = used.has(index) ? 0 : similarity(value, after[j]);
+        if (score > bestScore) {
+          best = index;
+          bestScore = score;
+        }
+      }
+      if (best >= 0) {
+        source[j] = best;
+        used.add(best);
+        changed.add(j);
+      }
+    }
+  }
+  let i = 0;
+  for (let j = 0; j < after.length; j++) {
+    if (source[j] !== undefined) {
+      i = Math.max(i, (source[j] as number) + 1);
+      continue;
+    }
+    while (i < before.length && used.has(i)) i++;
+    const next = source.slice(j).find((s) => s !== undefined) ?? before.length;
+    if (i < before.length && i < next && !distinct(before[i], after[j])) {
+      source[j] = i;
+      used.add(i);
+      changed.add(j);
+      i++;
+    }
+  }
+
+  // Remove what isn't kept, last first so indices stay valid
+  for (let index = before.length - 1; index >= 0; index--) {
+    if (!used.has(index)) {
+      patches.push({ op: "remove", path: pointer(index) });
+    }
+  }
+
+  // Reorder what's kept with as few moves as possible: elements on a
+  // longest increasing run of target positions stay where they are
+  const working = before
+    .map((_, index) => index)
+    .filter((index) => used.has(index));
+  const targets = new Map<number, number>();
+  source.forEach((s, j) => s !== undefined && targets.set(s, j));
+  const order = working.map((s) => targets.get(s) as number);
+  const stay = new Set(
+    longestCommonSubsequence(
+      order,
+      [...order].sort((x, y) => x - y),
+      (x, y) => x === y
+    ).map(([k]) => order[k])
+  );
+  const kept = source
+    .map((s, j) => ({ s, j }))
+    .filter(
+      (entry): entry is { s: number; j: number } => entry.s !== undefined
+    );
+  for (const [k, { s, j }] of kept.entries()) {
+    if (stay.has(j)) continue;
+    const from = working.indexOf(s);
+    working.splice(from, 1);
+    const previous = k > 0 ? working.indexOf(kept[k - 1].s) + 1 : 0;
+    working.splice(previous, 0, s);
+    patches.push({ op: "move", from: pointer(from), path: pointer(previous) });
+  }
+
+  // Insert new elements in order, now that everything before them is placed
+  for (let j = 0; j < after.length; j++) {
+    if (source[j] === undefined) {
+      patches.push({ op: "add", path: pointer(j), value: after[j] });
+    }
+  }
+
+  for (const j of [...changed].sort((a, b) => a - b)) {
+    diffValue(
+      before[source[j] as number],
+      after[j],
+      [...path, j],
+      patches,
+      options
+    );
+  }
+}
@@ -1,197 +1,549 @@
 import type { JsonPatchOp } from "./types.js";
+import { PatchApplicationError } from "./errors.js";
+import { deepEqual } from "./utils.js";
 
 /**
- * Resolve a JSON Pointer path to get the value at that location.
+ * Options controlling how JSON patches are applied.
  */
-function resolvePointer(doc: Record<string, unknown>, path: string): unknown {
-  const parts = path.split("/").filter((p) => p !== "");
-  let current: unknown = doc;
+export interface ApplyJsonPatchesOptions {
+  /**
+   * "strict" (default) follows RFC 6902 exactly. "lenient" tolerates the
+   * mistakes LLMs commonly make when writing patches:
+   * - missing intermediate containers are created on add/replace
+   * - replace on a missing target behaves like add
+   * - remove on a missing target is a no-op
+   * - add past the end of an array appends
+   * - `/-` on a string appends to the string
+   * - paths without a leading "/" are treated as if they had one
+   * - a "~" not followed by "0" or "1" is read as a literal "~"
+   */
+  mode?: "strict" | "lenient";
+}
 
-  for (const part of parts) {
-    if (current === null || current === undefined) {
-      return undefined;
-    }
-    if (Array.isArray(current)) {
-      const index = parseInt(part, 10);
-      current = current[index];
-    } else if (typeof current === "object") {
-      current = (current as Record<string, unknown>)[part];
-    } else {
-      return undefined;
-    }
+type Container = Record<string, unknown> | unknown[];
+
+const ARRAY_INDEX = /^(0|[1-9][0-9]*)$/;
+const ARRAY_KEY = /^\[([^=\]]+)=(.*)\]$/;
+
+/**
+ * Parse a JSON Pointer (RFC 6901) into its unescaped reference tokens. A "~"
+ * that doesn't start a "~0" or "~1" escape is an error, unless `mode` is
+ * "lenient", which reads it as a literal "~".
+ */
+export function parseJsonPointer(
+  pointer: string,
+  options: Pick<ApplyJsonPatchesOptions, "mode"> = {}
+): string[] {
+  if (pointer === "") {
+    return [];
+  }
+  if (!pointer.startsWith("/")) {
+    throw new Error(`Invalid JSON Pointer "${pointer}": must start with "/"`);
+  }
+  if (options.mode !== "lenient" && /~(?![01])/.test(pointer)) {
+    throw new Error(
+      `Invalid JSON Pointer "${pointer}": "~" must be followed by "0" or "1"`
+    );
   }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/**
+ * Build a JSON Pointer (RFC 6901) from unescaped reference tokens.
+ */
+export function formatJsonPointer(tokens: Array<string | number>): string {
+  return tokens
+    .map(
+      (token) => "/" + String(token).replace(/~/g, "~0").replace(/\//g, "~1")
+    )
+    .join("");
+}
 
-  return current;
+function isContainer(value: unknown): value is Container {
+  return typeof value === "object" && value !== null;
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function hasKey(container: Container, key: string): boolean {
+  if (Array.isArray(container)) {
+    return ARRAY_INDEX.test(key) && Number(key) < container.length;
+  }
+  return Object.prototype.hasOwnProperty.call(container, key);
 }
 
 /**
- * Apply JSON patches to an object following RFC 6902.
- * Includes edge case handling for string concatenation.
+ * Applies patches to a working copy of a document. Operations mutate the
+ * copy in place; the caller discards it if any operation throws.
  */
-export function applyJsonPatches(
-  target: Record<string, unknown>,
-  patches: JsonPatchOp[]
-): Record<string, unknown> {
-  let result = JSON.parse(JSON.stringify(target)); // Deep clone
-
-  for (const patch of patches) {
-    // Check for string concatenation edge case before processing
-    // LLM sometimes tries to append to a string using /- syntax
-    if (patch.op === "add" && patch.path.endsWith("/-")) {
-      const basePath = patch.path.slice(0, -2);
-      const existing = resolvePointer(result, basePath);
-      if (typeof existing === "string") {
-        // Convert to a replace operation that concatenates
-        const basePathParts = basePath.split("/").filter((p) => p !== "");
-        let parent = result;
-        for (let i = 0; i < basePathParts.length - 1; i++) {
-          const key = basePathParts[i];
-          if (key) {
-            parent = parent[key] as Record<string, unknown>;
-          }
-        }
-        const lastKey = basePathParts[basePathParts.length - 1];
-        if (lastKey) {
-          parent[lastKey] = existing + String(patch.value);
-        } else {
-          // Root level string (unlikely but handle it)
-          result = (existing + String(patch.value)) as unknown as Record<
-            string,
-            unknown
-          >;
-        }
-        continue;
-      }
-    }
+class PatchApplier {
+  constructor(
+    public doc: unknown,
+    readonly lenient: boolean
+  ) {}
 
-    const pathParts = patch.path.split("/").filter((p) => p !== "");
+  apply(patch: JsonPatchOp): void {
+    const path = this.tokens(patch.path);
 
     switch (patch.op) {
       case "add":
-      case "replace": {
-        let current = result;
-        for (let i = 0; i < pathParts.length - 1; i++) {
-          const key = pathParts[i];
-          if (key && !(key in current)) {
-            // Check if next key is a number (array index)
-            const nextKey = pathParts[i + 1];
-            if (nextKey && !isNaN(Number(nextKey))) {
-              current[key] = [];
-            } else {
-              current[key] = {};
-            }
-          }
-          if (key) {
-            current = current[key] as Record<string, unknown>;
-          }
-        }
-        const lastKey = pathParts[pathParts.length - 1];
-        if (lastKey === "-" && Array.isArray(current)) {
-          // Append to array
-          current.push(patch.value);
-        } else if (lastKey) {
-          current[lastKey] = patch.value;
+        this.add(path, clone(patch.value));
+        break;
+      case "remove":
+        this.remove(path);
+        break;
+      case "replace":
+        this.replace(path, clone(patch.value));
+        break;
+      case "move": {
+        const from = this.tokens(this.requireFrom(patch));
+        if (
+          from.length < path.length &&
+          from.every((token, i) => token === path[i])
+        ) {
+          throw new Error(
+            `cannot move "${patch.from}" into its own child "${patch.path}"`
+          );
         }
+        const value = this.get(from);
+        this.remove(from);
+        // Keyed tokens in the target must match the array as it is after
+        // the removal
+        this.add(this.tokens(patch.path), value);
         break;
       }
-      case "remove": {
-        let current = result;
-        for (let i = 0; i < pathParts.length - 1; i++) {
-          const key = pathParts[i];
-          if (key && current) {
-            current = current[key] as Record<string, unknown>;
-          }
-          if (!current) break;
-        }
-        const lastKey = pathParts[pathParts.length - 1];
-        if (current && lastKey) {
-          if (Array.isArray(current)) {
-            const index = parseInt(lastKey, 10);
-            if (!isNaN(index)) {
-              current.splice(index, 1);
-            }
-          } else {
-            delete current[lastKey];
-          }
+      case "copy": {
+        const from = this.tokens(this.requireFrom(patch));
+        this.add(path, clone(this.get(from)));
+        break;
+      }
+      case "test": {
+        const actual = this.get(path);
+        if (!deepEqual(actual, patch.value)) {
+          throw new Error(
+            `Test failed: expected ${JSON.stringify(patch.value)}, got ${JSON.stringify(actual)}`
+          );
         }
         break;
       }
+      default:
+        throw new Error(`unknown operation "${(patch as { op: unknown }).op}"`);
+    }
+  }
+
+  /**
+   * Apply a patch that is known to succeed, returning the operations that
+   * undo it.
+   */
+  applyAndInvert(patch: JsonPatchOp): JsonPatchOp[] {
+    const path = this.tokens(patch.path);
+    const pointer = formatJsonPointer(path);
+
+    switch (patch.op) {
+      case "test":
+        return [];
+      case "copy": {
+        const from = this.tokens(this.requireFrom(patch));
+        return this.applyAndInvert({
+          op: "add",
+          path: pointer,
+          value: this.get(from),
+        });
+      }
       case "move": {
-        if (!patch.from) break;
-        const fromParts = patch.from.split("/").filter((p) => p !== "");
-
-        // Get value from source
-        let source = result;
-        for (let i = 0; i < fromParts.length - 1; i++) {
-          const key = fromParts[i];
-          if (key) source = source[key] as Record<string, unknown>;
-        }
-        const sourceKey = fromParts[fromParts.length - 1];
-        const value = sourceKey ? source[sourceKey] : undefined;
-
-        // Remove from source
-        if (sourceKey) {
-          if (Array.isArray(source)) {
-            const index = parseInt(sourceKey, 10);
-            if (!isNaN(index)) source.splice(index, 1);
-          } else {
-            delete source[sourceKey];
-          }
-        }
+        const from = formatJsonPointer(this.tokens(this.requireFrom(patch)));
+        const value = clone(this.get(this.tokens(from)));
+        const removal = this.applyAndInvert({ op: "remove", path: from });
+        const addition = this.applyAndInvert({
+          op: "add",
+          path: patch.path,
+          value,
+        });
+        return [...addition, ...removal];
+      }
+      case "remove": {
+        const existed = this.exists(path);
+        const value = existed ? clone(this.get(path)) : undefined;
+        this.apply(patch);
+        return existed ? [{ op: "add", path: pointer, value }] : [];
+      }
+    }
+
+    const previous = clone(this.doc);
+    if (path.length === 0) {
+      this.apply(patch);
+      return [{ op: "replace", path: "", value: previous }];
+    }
+    const key = path[path.length - 1] as string;
+    const base = path.slice(0, -1);
 
-        // Add to destination
-        let dest = result;
-        for (let i = 0; i < pathParts.length - 1; i++) {
-          const key = pathParts[i];
-          if (key) dest = dest[key] as Record<string, unknown>;
+    // Appending to a string with /- in lenient mode
+    const baseValue = this.tryGet(base);
+    if (this.lenient && key === "-" && typeof baseValue === "string") {
+      this.apply(patch);
+      return [
+        { op: "replace", path: formatJsonPointer(base), value: baseValue },
+      ];
+    }
+
+    // Containers created for a lenient add are removed as a whole, by the
+    // index they were appended at rather than "-"
+    for (let i = 1; i < path.length; i++) {
+      const created = path.slice(0, i);
+      if (!this.exists(created)) {
+        const array = this.tryGet(path.slice(0, i - 1));
+        if (created[i - 1] === "-" && Array.isArray(array)) {
+          created[i - 1] = String(array.length);
         }
-        const destKey = pathParts[pathParts.length - 1];
-        if (destKey) dest[destKey] = value;
-        break;
+        this.apply(patch);
+        return [{ op: "remove", path: formatJsonPointer(created) }];
       }
-      case "copy": {
-        if (!patch.from) break;
-        const fromParts = patch.from.split("/").filter((p) => p !== "");
-
-        // Get value from source
-        let source = result;
-        for (let i = 0; i < fromParts.length - 1; i++) {
-          const key = fromParts[i];
-          if (key) source = source[key] as Record<string, unknown>;
+    }
+
+    const container = this.parent(path, false);
+    if (
+      hasKey(container, key) &&
+      !(patch.op === "add" && Array.isArray(container))
+    ) {
+      const value = clone(this.child(container, key));
+      this.apply(patch);
+      return [{ op: "replace", path: pointer, value }];
+    }
+    // An insertion, which lenient mode turns into an append past the end
+    const inserted = Array.isArray(container)
+      ? formatJsonPointer([
+          ...base,
+          key === "-"
+            ? container.length
+            : Math.min(Number(key), container.length),
+        ])
+      : pointer;
+    this.apply(patch);
+    return [{ op: "remove", path: inserted }];
+  }
+
+  private tokens(pointer: string): string[] {
+    if (typeof pointer !== "string") {
+      throw new Error("path must be a string");
+    }
+    const mode = this.lenient ? "lenient" : "strict";
+    if (this.lenient && pointer !== "" && !pointer.startsWith("/")) {
+      return this.resolveKeys(parseJsonPointer(`/${pointer}`, { mode }));
+    }
+    return this.resolveKeys(parseJsonPointer(pointer, { mode }));
+  }
+
+  /**
+   * Replace `[key=value]` tokens addressing array items by a key field with
+   * the current index of the one item they match. Elsewhere, such tokens
+   * are ordinary object keys.
+   */
+  private resolveKeys(path: string[]): string[] {
+    let current: unknown = this.doc;
+    return path.map((token, i) => {
+      const keyed = token.match(ARRAY_KEY);
+      if (keyed && Array.isArray(current)) {
+        const [, key, value] = keyed as [string, string, string];
+        const arrayPath = formatJsonPointer(path.slice(0, i));
+        const matches = current.flatMap((item, index) =>
+          isContainer(item) &&
+          !Array.isArray(item) &&
+          hasKey(item, key) &&
+          String(item[key]) === value
+            ? [index]
+            : []
+        );
+        if (matches.length !== 1) {
+          throw new Error(
+            matches.length === 0
+              ? `no item of "${arrayPath}" has ${key}=${value}`
+              : `${matches.length} items of "${arrayPath}" have ${key}=${value}`
+          );
         }
-        const sourceKey = fromParts[fromParts.length - 1];
-        const value = sourceKey
-          ? JSON.parse(JSON.stringify(source[sourceKey]))
+        token = String(matches[0]);
+      }
+      current =
+        isContainer(current) && hasKey(current, token)
+          ? this.child(current, token)
           : undefined;
+      return token;
+    });
+  }
 
-        // Add to destination
-        let dest = result;
-        for (let i = 0; i < pathParts.length - 1; i++) {
-          const key = pathParts[i];
-          if (key) dest = dest[key] as Record<string, unknown>;
-        }
-        const destKey = pathParts[pathParts.length - 1];
-        if (destKey) dest[destKey] = value;
-        break;
+  private requireFrom(patch: JsonPatchOp): string {
+    if (patch.from === undefined) {
+      throw new Error(`"${patch.op}" operation requires "from"`);
+    }
+    return patch.from;
+  }
+
+  /**
+   * Resolve the container holding the last token of `path`. In lenient
+   * mode, missing intermediate containers are created along the way.
+   */
+  private parent(path: string[], create: boolean): Container {
+    let current: unknown = this.doc;
+    for (let i = 0; i < path.length - 1; i++) {
+      const token = path[i] as string;
+      if (!isContainer(current)) {
+        throw new Error(
+          `path "${formatJsonPointer(path.slice(0, i))}" is not a container`
+        );
       }
-      case "test": {
-        let current = result;
-        for (let i = 0; i < pathParts.length - 1; i++) {
-          const key = pathParts[i];
-          if (key) current = current[key] as Record<string, unknown>;
-        }
-        const lastKey = pathParts[pathParts.length - 1];
-        const actual = lastKey ? current[lastKey] : undefined;
-        if (JSON.stringify(actual) !== JSON.stringify(patch.value)) {
+      if (!hasKey(current, token)) {
+        if (!(create && this.lenient)) {
           throw new Error(
-            `Test failed: expected ${JSON.stringify(patch.value)}, got ${JSON.stringify(actual)}`
+            `path "${formatJsonPointer(path.slice(0, i + 1))}" does not exist`
           );
         }
-        break;
+        const next = path[i + 1] as string;
+        const created = ARRAY_INDEX.test(next) || next === "-" ? [] : {};
+        this.setChild(current, token, created);
+        current = created;
+        continue;
+      }
+      current = this.child(current, token);
+    }
+    if (!isContainer(current)) {
+      throw new Error(
+        `path "${formatJsonPointer(path.slice(0, -1))}" is not a container`
+      );
+    }
+    return current;
+  }
+
+  private child(container: Container, token: string): unknown {
+    return Array.isArray(container)
+      ? container[Number(token)]
+      : container[token];
+  }
+
+  private setChild(container: Container, token: string, value: unknown) {
+    if (Array.isArray(container)) {
+      if (token === "-") {
+        container.push(value);
+      } else {
+        container[this.index(container, token, false)] = value;
+      }
+    } else {
+      container[token] = value;
+    }
+  }
+
+  private index(array: unknown[], token: string, insert: boolean): number {
+    if (!ARRAY_INDEX.test(token)) {
+      throw new Error(`"${token}" is not a valid array index`);
+    }
+    const index = Number(token);
+    const limit = insert ? array.length : array.length - 1;
+    if (index > limit) {
+      if (insert && this.lenient) {
+        return array.length;
+      }
+      throw new Error(
+        `array index ${index} is out of bounds (length ${array.length})`
+      );
+    }
+    return index;
+  }
+
+  private get(path: string[]): unknown {
+    if (path.length === 0) {
+      return this.doc;
+    }
+    const container = this.parent(path, false);
+    const key = path[path.length - 1] as string;
+    if (!hasKey(container, key)) {
+      throw new Error(`path "${formatJsonPointer(path)}" does not exist`);
+    }
+    return this.child(container, key);
+  }
+
+  private add(path: string[], value: unknown): void {
+    if (path.length === 0) {
+      this.doc = value;
+      return;
+    }
+    const key = path[path.length - 1] as string;
+
+    // LLMs sometimes try to append to a string using the /- syntax
+    if (this.lenient && key === "-") {
+      const base = path.slice(0, -1);
+      const existing = this.tryGet(base);
+      if (typeof existing === "string") {
+        this.replace(base, existing + String(value));
+        return;
+      }
+    }
+
+    const container = this.parent(path, true);
+    if (Array.isArray(container)) {
+      if (key === "-") {
+        container.push(value);
+      } else {
+        container.splice(this.index(container, key, true), 0, value);
+      }
+    } else {
+      container[key] = value;
+    }
+  }
+
+  private remove(path: string[]): void {
+    if (path.length === 0) {
+      throw new Error("cannot remove the document root");
+    }
+    const key = path[path.length - 1] as string;
+    let container: Container;
+    try {
+      container = this.parent(path, false);
+    } catch (e) {
+      if (this.lenient) return;
+      throw e;
+    }
+    if (!hasKey(container, key)) {
+      if (this.lenient) return;
+      throw new Error(`path "${formatJsonPointer(path)}" does not exist`);
+    }
+    if (Array.isArray(container)) {
+      container.splice(Number(key), 1);
+    } else {
+      delete container[key];
+    }
+  }
+
+  private replace(path: string[], value: unknown): void {
+    if (path.length === 0) {
+      this.doc = value;
+      return;
+    }
+    const key = path[path.length - 1] as string;
+    const container = this.parent(path, true);
+    if (!hasKey(container, key)) {
+      if (this.lenient) {
+        this.add(path, value);
+        return;
       }
+      throw new Error(`path "${formatJsonPointer(path)}" does not exist`);
     }
+    this.setChild(container, key, value);
   }
 
+  private exists(path: string[]): boolean {
+    try {
+      this.get(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private tryGet(path: string[]): unknown {
+    try {
+      return this.get(path);
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Apply JSON patches to an object following RFC 6902.
+ *
+ * Besides indices, array items that are objects can be addressed by a key
+ * field as `[key=value]`, e.g. `/friends/[name=Alice]/age`. Such a token
+ * resolves to the index of the one item whose `key` (compared as a string)
+ * is `value` when its operation is applied, so it stays correct as earlier
+ * operations shift the array. It is an error if no item or several match.
+ * Within objects, such a token is an ordinary key.
+ *
+ * Patches are applied atomically: the input is never mutated, and if any
+ * operation fails a PatchApplicationError is thrown and no partial result is
+ * produced.
+ * Pass `{ mode: "lenient" }` to tolerate common LLM patch mistakes.
+ */
+export function applyJsonPatches(
+  target: Record<string, unknown>,
+  patches: JsonPatchOp[],
+  options: ApplyJsonPatchesOptions = {}
+): Record<string, unknown> {
+  const applier = new PatchApplier(clone(target), options.mode === "lenient");
+
+  patches.forEach((patch, i) => {
+    try {
+      applier.apply(patch);
+    } catch (e) {
+      // The working copy may be half-way through the failing operation, so
+      // rebuild the snapshot from the operations that succeeded.
+      const snapshot = new PatchApplier(clone(target), applier.lenient);
+      patches.slice(0, i).forEach((p) => snapshot.apply(p));
+      const reason = e instanceof Error ? e.message : String(e);
+      throw new PatchApplicationError(i, patch, reason, snapshot.doc);
+    }
+  });
+
+  return applier.doc as Record<string, unknown>;
+}
+
+/**
+ * Compute the patches that undo `patches`: applying them to the result of
+ * `applyJsonPatches(target, patches, options)` gives back `target`. Pass the
+ * same `options` the patches were applied with. The inverse patches are
+ * valid in strict mode.
+ *
+ * Throws a PatchApplicationError if `patches` don't apply to `target`.
+ *
+ * @example
+ * ```typescript
+ * const updated = applyJsonPatches(profile, patches);
+ * const undo = invertJsonPatches(profile, patches);
+ * applyJsonPatches(updated, undo); // deep-equals profile
+ * ```
+ */
+export function invertJsonPatches(
+  target: Record<string, unknown>,
+  patches: JsonPatchOp[],
+  options: ApplyJsonPatchesOptions = {}
+): JsonPatchOp[] {
+  // Fail the same way applyJsonPatches does for patches that don't apply
+  applyJsonPatches(target, patches, options);
+
+  const applier = new PatchApplier(clone(target), options.mode === "lenient");
+  const inverses = patches.map((patch) => applier.applyAndInvert(patch));
+  return inverses.reverse().flat();
+}
+
+/**
+ * Apply a JSON Merge Patch (RFC 7386). Objects in `patch` are merged into
+ * `target` key by key, `null` removes a key, and any other value, arrays
+ * included, replaces what was there. Neither argument is mutated.
+ *
+ * @example
+ * ```typescript
+ * applyMergePatch(
+ *   { name: "Alice", tags: ["a"], address: { city: "Paris", zip: "75001" } },
+ *   { tags: ["a", "b"], address: { zip: null } }
+ * );
+ * // { name: "Alice", tags: ["a", "b"], address: { city: "Paris" } }
+ * ```
+ */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isContainer(patch) || Array.isArray(patch)) {
+    return clone(patch);
+  }
+  const result: Record<string, unknown> =
+    isContainer(target) && !Array.isArray(target) ? clone(target) : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
   return result;
 }
 
@@ -229,3 +581,21 @@ export function ensurePatches(args: Record<string, unknown>): JsonPatchOp[] {
 
   return [];
 }
+
+/**
+ * Ensure a tool argument is a JSON object, parsing it if the model sent it
+ * as a string. Returns undefined for anything else.
+ */
+export function ensureObject(
+  value: unknown
+): Record<string, unknown> | undefined {
+  let parsed = value;
+  if (typeof value === "string") {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+  return isContainer(parsed) && !Array.isArray(parsed) ? parsed : undefined;
+}
@@ -0,0 +1,703 @@
+import { z } from "zod";
+import { JsonSchemaConversionError } from "./errors.js";
+import { formatJsonPointer, parseJsonPointer } from "./json-patch.js";
+import { deepEqual } from "./utils.js";
+
+/**
+ * A JSON Schema document or subschema. `true` accepts anything and `false`
+ * accepts nothing.
+ */
+export type JsonSchema = boolean | Record<string, unknown>;
+
+/**
+ * Keywords that are recognised but cannot be expressed by the converter.
+ * Schemas using them are rejected rather than silently validated too
+ * leniently.
+ */
+const UNSUPPORTED_KEYWORDS = [
+  "patternProperties",
+  "propertyNames",
+  "dependencies",
+  "dependentRequired",
+  "dependentSchemas",
+  "if",
+  "then",
+  "else",
+  "contains",
+  "minContains",
+  "maxContains",
+  "unevaluatedProperties",
+  "unevaluatedItems",
+  "$dynamicRef",
+  "$recursiveRef",
+];
+
+const OBJECT_KEYWORDS = [
+  "properties",
+  "required",
+  "additionalProperties",
+  "minProperties",
+  "maxProperties",
+];
+const ARRAY_KEYWORDS = [
+  "items",
+  "prefixItems",
+  "additionalItems",
+  "minItems",
+  "maxItems",
+  "uniqueItems",
+];
+const STRING_KEYWORDS = ["minLength", "maxLength", "pattern", "format"];
+const NUMBER_KEYWORDS = [
+  "minimum",
+  "maximum",
+  "exclusiveMinimum",
+  "exclusiveMaximum",
+  "multipleOf",
+];
+
+type Primitive = string | number | boolean | null;
+
+function isPrimitive(value: unknown): value is Primitive {
+  return (
+    value === null || ["string", "number", "boolean"].includes(typeof value)
+  );
+}
+
+function union(options: z.ZodTypeAny[]): z.ZodTypeAny {
+  if (options.length === 0) {
+    return z.never();
+  }
+  if (options.length === 1) {
+    return options[0] as z.ZodTypeAny;
+  }
+  return z.union(options as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+}
+
+function intersection(schemas: z.ZodTypeAny[]): z.ZodTypeAny {
+  return schemas.reduce((acc, schema) => z.intersection(acc, schema));
+}
+
+/**
+ * Report the issues of a failed nested parse under `path`.
+ */
+function forwardIssues(
+  ctx: z.RefinementCtx,
+  error: z.ZodError,
+  path: Array<string | number>
+) {
+  for (const issue of error.issues) {
+    ctx.addIssue({ ...issue, path: [...path, ...issue.path] });
+  }
+}
+
+/**
+ * Converts one root schema. Resolved `$ref`s are cached per converter so
+ * recursive definitions terminate.
+ */
+class JsonSchemaConverter {
+  private refs = new Map<string, z.ZodTypeAny>();
+
+  constructor(private readonly root: JsonSchema) {}
+
+  convert(schema: JsonSchema, path: string[]): z.ZodTypeAny {
+    if (schema === true) {
+      return z.unknown();
+    }
+    if (schema === false) {
+      return z.never();
+    }
+    if (
+      typeof schema !== "object" ||
+      schema === null ||
+      Array.isArray(schema)
+    ) {
+      throw new JsonSchemaConversionError(
+        "",
+        formatJsonPointer(path),
+        "Expected a schema object or boolean"
+      );
+    }
+
+    for (const keyword of UNSUPPORTED_KEYWORDS) {
+      if (keyword in schema) {
+        throw new JsonSchemaConversionError(
+          keyword,
+          formatJsonPointer(path),
+          `Unsupported JSON Schema keyword "${keyword}"`
+        );
+      }
+    }
+
+    const parts: z.ZodTypeAny[] = [];
+
+    if (typeof schema.$ref === "string") {
+      parts.push(this.ref(schema.$ref, path));
+    }
+
+    if (Array.isArray(schema.enum)) {
+      parts.push(this.values(schema.enum, path, "enum"));
+    } else if ("const" in schema) {
+      parts.push(this.values([schema.const], path, "const"));
+    } else {
+      const types = this.types(schema, path);
+      if (types.length > 0) {
+        parts.push(union(types.map((type) => this.typed(schema, type, path))));
+      }
+    }
+
+    if (Array.isArray(schema.allOf)) {
+      parts.push(...this.list(schema.allOf, [...path, "allOf"]));
+    }
+    if (Array.isArray(schema.anyOf)) {
+      parts.push(union(this.list(schema.anyOf, [...path, "anyOf"])));
+    }
+    if (Array.isArray(schema.oneOf)) {
+      parts.push(this.oneOf(this.list(schema.oneOf, [...path, "oneOf"])));
+    }
+    if ("not" in schema) {
+      const not = this.convert(schema.not as JsonSchema, [...path, "not"]);
+      parts.push(
+        z.unknown().superRefine((value, ctx) => {
+          if (not.safeParse(value).success) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: "Value must not match the schema in `not`",
+            });
+          }
+        })
+      );
+    }
+
+    let result = parts.length > 0 ? intersection(parts) : z.unknown();
+    if (schema.nullable === true) {
+      result = result.nullable();
+    }
+    if (typeof schema.description === "string") {
+      result = result.describe(schema.description);
+    }
+    return result;
+  }
+
+  private list(schemas: unknown[], path: string[]): z.ZodTypeAny[] {
+    return schemas.map((schema, i) =>
+      this.convert(schema as JsonSchema, [...path, String(i)])
+    );
+  }
+
+  private ref(ref: string, path: string[]): z.ZodTypeAny {
+    const cached = this.refs.get(ref);
+    if (cached) {
+      return cached;
+    }
+
+    const fail = (message: string) =>
+      new JsonSchemaConversionError("$ref", formatJsonPointer(path), message);
+    if (!ref.startsWith("#")) {
+      throw fail(`Only local references are supported, got "${ref}"`);
+    }
+    let tokens: string[];
+    try {
+      tokens = parseJsonPointer(decodeURIComponent(ref.slice(1)));
+    } catch {
+      throw fail(`Only JSON Pointer references are supported, got "${ref}"`);
+    }
+    let target: unknown = this.root;
+    for (const token of tokens) {
+      if (typeof target !== "object" || target === null || !(token in target)) {
+        throw fail(`Cannot resolve reference "${ref}"`);
+      }
+      target = (target as Record<string, unknown>)[token];
+    }
+
+    // Register a lazy placeholder first so recursive references resolve
+    const resolved: { schema?: z.ZodTypeAny } = {};
+    const lazy = z.lazy(() => resolved.schema as z.ZodTypeAny);
+    this.refs.set(ref, lazy);
+    resolved.schema = this.convert(target as JsonSchema, tokens);
+    return lazy;
+  }
+
+  private values(
+    values: unknown[],
+    path: string[],
+    keyword: string
+  ): z.ZodTypeAny {
+    if (values.length === 0) {
+      throw new JsonSchemaConversionError(
+        keyword,
+        formatJsonPointer(path),
+        `"${keyword}" must list at least one value`
+      );
+    }
+    if (values.every((v): v is string => typeof v === "string")) {
+      return z.enum(values as [string, ...string[]]);
+    }
+    if (values.every(isPrimitive)) {
+      return union(values.map((v) => z.literal(v)));
+    }
+    return z
+      .unknown()
+      .refine((value) => values.some((v) => deepEqual(v, value)), {
+        message: `Value must be one of ${JSON.stringify(values)}`,
+      });
+  }
+
+  /**
+   * The types a schema allows. Without an explicit `type`, the type is
+   * inferred from type-specific keywords such as `properties` or `items`.
+   */
+  private types(schema: Record<string, unknown>, path: string[]): string[] {
+    const { type } = schema;
+    if (typeof type === "string") {
+      return [type];
+    }
+    if (Array.isArray(type)) {
+      return type.map(String);
+    }
+    if (type !== undefined) {
+      throw new JsonSchemaConversionError(
+        "type",
+        formatJsonPointer(path),
+        `"type" must be a string or an array of strings`
+      );
+    }
+    const has = (keywords: string[]) => keywords.some((k) => k in schema);
+    if (has(OBJECT_KEYWORDS)) return ["object"];
+    if (has(ARRAY_KEYWORDS)) return ["array"];
+    if (has(STRING_KEYWORDS)) return ["string"];
+    if (has(NUMBER_KEYWORDS)) return ["number"];
+    return [];
+  }
+
+  private typed(
+    schema: Record<string, unknown>,
+    type: string,
+    path: string[]
+  ): z.ZodTypeAny {
+    switch (type) {
+      case "string":
+        return this.string(schema, path);
+      case "number":
+        return this.number(schema, z.number());
+      case "integer":
+        return this.number(schema, z.number().int());
+      case "boolean":
+        return z.boolean();
+      case "null":
+        return z.null();
+      case "array":
+        return this.array(schema, path);
+      case "object":
+        return this.object(schema, path);
+      default:
+        throw new JsonSchemaConversionError(
+          "type",
+          formatJsonPointer(path),
+          `Unknown type "${type}"`
+        );
+    }
+  }
+
+  private string(
+    schema: Record<string, unknown>,
+    path: string[]
+  ): z.ZodTypeAny {
+    let result = z.string();
+    if (typeof schema.minLength === "number") {
+      result = result.min(schema.minLength);
+    }
+    if (typeof schema.maxLength === "number") {
+      result = result.max(schema.maxLength);
+    }
+    if (typeof schema.pattern === "string") {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(schema.pattern);
+      } catch {
+        throw new JsonSchemaConversionError(
+          "pattern",
+          formatJsonPointer(path),
+          `Invalid pattern ${JSON.stringify(schema.pattern)}`
+        );
+      }
+      result = result.regex(pattern);
+    }
+    switch (schema.format) {
+      case "email":
+        return result.email();
+      case "uri":
+      case "url":
+        return result.url();
+      case "uuid":
+        return result.uuid();
+      case "date-time":
+        return result.datetime({ offset: true });
+      case "date":
+        return result.date();
+      case "duration":
+        return result.duration();
+      case "ipv4":
+        return result.ip({ version: "v4" });
+      case "ipv6":
+        return result.ip({ version: "v6" });
+      default:
+        // Other formats are annotations only, as in the JSON Schema spec
+        return result;
+    }
+  }
+
+  private number(
+    schema: Record<string, unknown>,
+    base: z.ZodNumber
+  ): z.ZodTypeAny {
+    let result = base;
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = schema;
+    if (typeof minimum === "number") {
+      // OpenAPI 3.0 / draft 4 use a boolean exclusiveMinimum
+      result =
+        exclusiveMinimum === true ? result.gt(minimum) : result.gte(minimum);
+    }
+    if (typeof maximum === "number") {
+      result =
+        exclusiveMaximum === true ? result.lt(maximum) : result.lte(maximum);
+    }
+    if (typeof exclusiveMinimum === "number") {
+      result = result.gt(exclusiveMinimum);
+    }
+    if (typeof exclusiveMaximum === "number") {
+      result = result.lt(exclusiveMaximum);
+    }
+    if (typeof schema.multipleOf === "number") {
+      result = result.multipleOf(schema.multipleOf);
+    }
+    return result;
+  }
+
+  private array(schema: Record<string, unknown>, path: string[]): z.ZodTypeAny {
+    // Tuples: `prefixItems` + `items` (2020-12) or `items` array +
+    // `additionalItems` (draft 4-2019)
+    let prefix: z.ZodTypeAny[] = [];
+    let rest: z.ZodTypeAny = z.unknown();
+    if (Array.isArray(schema.prefixItems)) {
+      prefix = this.list(schema.prefixItems, [...path, "prefixItems"]);
+      if (schema.items !== undefined) {
+        rest = this.convert(schema.items as JsonSchema, [...path, "items"]);
+      }
+    } else if (Array.isArray(schema.items)) {
+      prefix = this.list(schema.items, [...path, "items"]);
+      if (schema.additionalItems !== undefined) {
+        rest = this.convert(schema.additionalItems as JsonSchema, [
+          ...path,
+          "additionalItems",
+        ]);
+      }
+    } else if (schema.items !== undefined) {
+      rest = this.convert(schema.items as JsonSchema, [...path, "items"]);
+    }
+
+    let result = prefix.length > 0 ? z.array(z.unknown()) : z.array(rest);
+    if (typeof schema.minItems === "number") {
+      result = result.min(schema.minItems);
+    }
+    if (typeof schema.maxItems === "number") {
+      result = result.max(schema.maxItems);
+    }
+
+    const unique = schema.uniqueItems === true;
+    if (prefix.length === 0 && !unique) {
+      return result;
+    }
+    return result.superRefine((items, ctx) => {
+      if (prefix.length > 0) {
+        items.forEach((item, i) => {
+          const parsed = (prefix[i] ?? rest).safeParse(item);
+          if (!parsed.success) {
+            forwardIssues(ctx, parsed.error, [i]);
+          }
+        });
+      }
+      if (unique) {
+        items.forEach((item, i) => {
+          if (items.slice(0, i).some((other) => deepEqual(other, item))) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: [i],
+              message: "Array items must be unique",
+            });
+          }
+        });
+      }
+    });
+  }
+
+  private object(
+    schema: Record<string, unknown>,
+    path: string[]
+  ): z.ZodTypeAny {
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+    const required = Array.isArray(schema.required)
+      ? schema.required.map(String)
+      : [];
+
+    const shape: Record<string, z.ZodTypeAny> = {};
+    for (const [key, propSchema] of Object.entries(properties)) {
+      const converted = this.convert(propSchema, [...path, "properties", key]);
+      shape[key] = required.includes(key) ? converted : converted.optional();
+    }
+
+    const additional = schema.additionalProperties;
+    const base = z.object(shape);
+    let result: z.ZodTypeAny;
+    if (additional === false) {
+      result = base.strict();
+    } else if (additional === undefined || additional === true) {
+      result = base.passthrough();
+    } else {
+      result = base.catchall(
+        this.convert(additional as JsonSchema, [
+          ...path,
+          "additionalProperties",
+        ])
+      );
+    }
+
+    // Zod accepts a missing key when its schema accepts undefined, so
+    // presence has to be checked separately for those.
+    const unchecked = required.filter(
+      (key) =>
+        !(key in shape) ||
+        shape[key] instanceof z.ZodUnknown ||
+        shape[key] instanceof z.ZodAny
+    );
+    const { minProperties, maxProperties } = schema;
+    if (
+      unchecked.length === 0 &&
+      typeof minProperties !== "number" &&
+      typeof maxProperties !== "number"
+    ) {
+      return result;
+    }
+    return result.superRefine((value, ctx) => {
+      for (const key of unchecked) {
+        if (!Object.prototype.hasOwnProperty.call(value, key)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [key],
+            message: "Required",
+          });
+        }
+      }
+      const count = Object.keys(value as object).length;
+      if (typeof minProperties === "number" && count < minProperties) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Object must have at least ${minProperties} properties`,
+        });
+      }
+      if (typeof maxProperties === "number" && count > maxProperties) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Object must have at most ${maxProperties} properties`,
+        });
+      }
+    });
+  }
+
+  private oneOf(options: z.ZodTypeAny[]): z.ZodTypeAny {
+    return union(options).superRefine((value, ctx) => {
+      const matches = options.filter((o) => o.safeParse(value).success).length;
+      if (matches > 1) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Value must match exactly one schema in oneOf, but matched ${matches}`,
+        });
+      }
+    });
+  }
+}
+
+/**
+ * Convert a JSON Schema (draft 4 through 2020-12, plus OpenAPI 3.0's
+ * `nullable`) to an equivalent Zod schema.
+ *
+ * Supported:
+ * - `type` (including arrays of types), `enum`, `const`, `nullable`
+ * - local `$ref`s (`#/$defs/...`, `#/definitions/...`), including recursive ones
+ * - `allOf`, `anyOf`, `oneOf`, `not`
+ * - strings: `minLength`, `maxLength`, `pattern`, and the formats `email`,
+ *   `uri`, `url`, `uuid`, `date-time`, `date`, `duration`, `ipv4`, `ipv6`
+ * - numbers: `integer`, `minimum`, `maximum`, `exclusiveMinimum`,
+ *   `exclusiveMaximum` (numeric or boolean), `multipleOf`
+ * - arrays: `items`, `prefixItems`, `additionalItems`, `minItems`,
+ *   `maxItems`, `uniqueItems`
+ * - objects: `properties`, `required`, `additionalProperties` (boolean or
+ *   schema), `minProperties`, `maxProperties`
+ *
+ * Other formats and annotations (`title`, `default`, `examples`, ...) are
+ * ignored. Keywords that can't be converted, such as `patternProperties`,
+ * `if`/`then`/`else` or remote `$ref`s, throw a JsonSchemaConversionError.
+ */
+export function jsonSchemaToZod(schema: JsonSchema): z.ZodTypeAny {
+  return new JsonSchemaConverter(schema).convert(schema, []);
+}
+
+type SchemaObject = Record<string, unknown>;
+
+function isSchemaObject(value: unknown): value is SchemaObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Follow a local `$ref` within `root`, or return undefined if it can't be
+ * resolved.
+ */
+function resolveRef(root: JsonSchema, ref: string): JsonSchema | undefined {
+  if (!ref.startsWith("#")) {
+    return undefined;
+  }
+  let target: unknown = root;
+  try {
+    for (const token of parseJsonPointer(decodeURIComponent(ref.slice(1)))) {
+      if (!isSchemaObject(target) && !Array.isArray(target)) {
+        return undefined;
+      }
+      target = (target as SchemaObject)[token];
+    }
+  } catch {
+    return undefined;
+  }
+  return isSchemaObject(target) || typeof target === "boolean"
+    ? target
+    : undefined;
+}
+
+/**
+ * The schema for the child `key` of a value described by `schema`.
+ */
+function childSchema(
+  root: JsonSchema,
+  schema: JsonSchema,
+  key: string | number,
+  seen: Set<string>
+): JsonSchema | undefined {
+  if (typeof schema === "boolean") {
+    return schema || undefined;
+  }
+  if (typeof schema.$ref === "string" && !seen.has(schema.$ref)) {
+    const target = resolveRef(root, schema.$ref);
+    const found =
+      target === undefined
+        ? undefined
+        : childSchema(root, target, key, new Set([...seen, schema.$ref]));
+    if (found !== undefined) {
+      return found;
+    }
+  }
+
+  const properties = schema.properties;
+  if (isSchemaObject(properties) && String(key) in properties) {
+    return properties[String(key)] as JsonSchema;
+  }
+  const index = typeof key === "number" ? key : Number(key);
+  if (Number.isInteger(index) && index >= 0) {
+    const tuple = Array.isArray(schema.prefixItems)
+      ? schema.prefixItems
+      : Array.isArray(schema.items)
+        ? schema.items
+        : undefined;
+    if (tuple && index < tuple.length) {
+      return tuple[index] as JsonSchema;
+    }
+    const rest = tuple
+      ? (schema.items ?? schema.additionalItems)
+      : schema.items;
+    if (isSchemaObject(rest) || rest === true) {
+      return rest as JsonSchema;
+    }
+  }
+  if (isSchemaObject(schema.additionalProperties)) {
+    return schema.additionalProperties;
+  }
+
+  for (const keyword of ["allOf", "anyOf", "oneOf"]) {
+    const branches = schema[keyword];
+    if (!Array.isArray(branches)) {
+      continue;
+    }
+    for (const branch of branches) {
+      const found = childSchema(root, branch as JsonSchema, key, seen);
+      if (found !== undefined) {
+        return found;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Replace `$ref`s with their targets so a subschema stands on its own.
+ * Recursive references are left in place.
+ */
+function inlineRefs(
+  root: JsonSchema,
+  schema: unknown,
+  seen: Set<string>
+): unknown {
+  if (Array.isArray(schema)) {
+    return schema.map((item) => inlineRefs(root, item, seen));
+  }
+  if (!isSchemaObject(schema)) {
+    return schema;
+  }
+  const { $ref, ...rest } = schema;
+  const inlined: SchemaObject = {};
+  if (typeof $ref === "string") {
+    const target = seen.has($ref) ? undefined : resolveRef(root, $ref);
+    if (isSchemaObject(target)) {
+      Object.assign(
+        inlined,
+        inlineRefs(root, target, new Set([...seen, $ref])) as SchemaObject
+      );
+    } else {
+      inlined.$ref = $ref;
+    }
+  }
+  for (const [key, value] of Object.entries(rest)) {
+    if (key === "$schema" || key === "$defs" || key === "definitions") {
+      continue;
+    }
+    inlined[key] = inlineRefs(root, value, seen);
+  }
+  return inlined;
+}
+
+/**
+ * Find the part of a JSON Schema that describes the value at `path`, with
+ * its `$ref`s inlined. Returns undefined if the schema doesn't say what may
+ * appear there.
+ *
+ * @example
+ * ```typescript
+ * subschemaAt(
+ *   { type: "object", properties: { tags: { type: "array", items: { type: "string" } } } },
+ *   ["tags", 0]
+ * ); // { type: "string" }
+ * ```
+ */
+export function subschemaAt(
+  schema: JsonSchema,
+  path: Array<string | number>
+): JsonSchema | undefined {
+  let current: JsonSchema | undefined = schema;
+  for (const key of path) {
+    if (current === undefined) {
+      return undefined;
+    }
+    current = childSchema(schema, current, key, new Set());
+  }
+  if (typeof current === "boolean" || current === undefined) {
+    return current;
+  }
+  return inlineRefs(schema, current, new Set()) as JsonSchema;
+}
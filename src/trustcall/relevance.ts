@@ -0,0 +1,142 @@
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import type { ExistingType, SchemaInstance } from "./types.js";
+import { toInstances } from "./upsert.js";
+
+/**
+ * Scores existing documents against a query, such as the conversation being
+ * extracted from. Returns one score per document, higher is more relevant.
+ */
+export type RelevanceScorer = (
+  query: string,
+  documents: SchemaInstance[]
+) => number[] | Promise<number[]>;
+
+/**
+ * How to pick the existing documents shown to the model when updating.
+ */
+export interface RelevanceOptions {
+  /** How many existing documents to show the model */
+  topK: number;
+  /** Scores documents against the conversation. Default: `bm25Scorer()` */
+  scorer?: RelevanceScorer;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function documentText(document: SchemaInstance): string {
+  return JSON.stringify(document.record);
+}
+
+/**
+ * A keyword scorer using Okapi BM25, which needs no model calls. Documents
+ * are tokenized from their JSON, so field names count as terms too.
+ */
+export function bm25Scorer(
+  options: { k1?: number; b?: number } = {}
+): RelevanceScorer {
+  const { k1 = 1.2, b = 0.75 } = options;
+  return (query, documents) => {
+    const terms = new Set(tokenize(query));
+    const tokenized = documents.map((document) =>
+      tokenize(documentText(document))
+    );
+    const averageLength =
+      tokenized.reduce((sum, tokens) => sum + tokens.length, 0) /
+      Math.max(tokenized.length, 1);
+
+    const frequencies = tokenized.map((tokens) => {
+      const counts = new Map<string, number>();
+      for (const token of tokens) {
+        counts.set(token, (counts.get(token) ?? 0) + 1);
+      }
+      return counts;
+    });
+    const idf = new Map<string, number>();
+    for (const term of terms) {
+      const df = frequencies.filter((counts) => counts.has(term)).length;
+      idf.set(term, Math.log(1 + (documents.length - df + 0.5) / (df + 0.5)));
+    }
+
+    return frequencies.map((counts, i) => {
+      const lengthNorm =
+        1 - b + (b * tokenized[i].length) / (averageLength || 1);
+      let score = 0;
+      for (const term of terms) {
+        const tf = counts.get(term) ?? 0;
+        if (tf > 0) {
+          score +=
+            ((idf.get(term) ?? 0) * tf * (k1 + 1)) / (tf + k1 * lengthNorm);
+        }
+      }
+      return score;
+    });
+  };
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * (b[i] ?? 0);
+    normA += a[i] * a[i];
+    normB += (b[i] ?? 0) * (b[i] ?? 0);
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * A semantic scorer using the cosine similarity of embeddings, e.g. from
+ * `OpenAIEmbeddings`. Every document is embedded on each call, so cache
+ * embeddings (e.g. with `CacheBackedEmbeddings`) for large collections.
+ */
+export function embeddingScorer(
+  embeddings: EmbeddingsInterface
+): RelevanceScorer {
+  return async (query, documents) => {
+    const [queryVector, documentVectors] = await Promise.all([
+      embeddings.embedQuery(query),
+      embeddings.embedDocuments(documents.map(documentText)),
+    ]);
+    return documentVectors.map((vector) =>
+      cosineSimilarity(queryVector, vector)
+    );
+  };
+}
+
+/**
+ * Keep the `topK` existing documents most relevant to `query`, in their
+ * original order and form. Collections no larger than `topK` are returned
+ * as they are, without scoring.
+ */
+export async function selectRelevant(
+  existing: ExistingType,
+  query: string,
+  options: RelevanceOptions
+): Promise<ExistingType> {
+  const instances = toInstances(existing);
+  if (instances.length <= options.topK) {
+    return existing;
+  }
+  const scorer = options.scorer ?? bm25Scorer();
+  const scores = await scorer(query, instances);
+  const kept = new Set(
+    instances
+      .map((instance, i) => ({ id: instance.recordId, score: scores[i] ?? 0 }))
+      // Stable, so ties go to the earlier document
+      .sort((a, b) => b.score - a.score)
+      .slice(0, Math.max(options.topK, 0))
+      .map(({ id }) => id)
+  );
+
+  if (!Array.isArray(existing)) {
+    return Object.fromEntries(
+      Object.entries(existing).filter(([id]) => kept.has(id))
+    );
+  }
+  return existing.filter((item) =>
+    kept.has(Array.isArray(item) ? item[0] : item.recordId)
+  ) as ExistingType;
+}
@@ -1,72 +1,155 @@
 import { z } from "zod";
 
+/**
+ * Options for the schemas of patch lists.
+ */
+export interface PatchSchemaOptions {
+  /**
+   * Tell the model it may address array items by key, as `[key=value]`.
+   * Only set this when the patched tools declare array keys.
+   */
+  arrayKeys?: boolean;
+}
+
+/**
+ * Create a JSON Patch schema for validation error fixes.
+ */
+export function createJsonPatchSchema(options: PatchSchemaOptions = {}) {
+  const keyedItems = options.arrayKeys
+    ? " Items of arrays with a key field can be addressed by key instead of index, as [key=value], e.g. /friends/[name=Alice]/age; prefer this where available, as it stays correct when other items are added or removed."
+    : "";
+
+  return z.object({
+    op: z
+      .enum(["add", "remove", "replace"])
+      .describe(
+        "The operation to be performed. Must be one of 'add', 'remove', 'replace'."
+      ),
+    path: z
+      .string()
+      .describe(
+        "A JSON Pointer path that references a location within the target document where the operation is performed. Keys containing '~' or '/' must be escaped as '~0' and '~1' respectively. Note: patches are applied sequentially. If you remove a value, the collection size changes before the next patch is applied." +
+          keyedItems
+      ),
+    value: z
+      .unknown()
+      .describe(
+        "The value to be used within the operation. REQUIRED for" +
+        " 'add', 'replace', and 'test' operations." +
+        " Pay close attention to the json schema to ensure" +
+        " the patched document will be valid."
+      ),
+  });
+}
+
 /**
  * JSON Patch schema for validation error fixes.
  */
-export const JsonPatchSchema = z.object({
-  op: z
-.enum(["add", "remove", "replace"])
-.describe(
-      "The operation to be performed. Must be one of 'add', 'remove', 'replace'."
-    ),
-  path: z
-    .string()
-    .describe(
-      "A JSON Pointer path that references a location within the target document where the operation is performed. Note: patches are applied sequentially. If you remove a value, the collection size changes before the next patch is applied."
-    ),
-  value: z
-    .unknown()
-    .describe(
-      "The value to be used within the operation. REQUIRED for" +
-      " 'add', 'replace', and 'test' operations." +
-      " Pay close attention to the json schema to ensure" +
-      " the patched document will be valid."
-    ),
-});
+export const JsonPatchSchema = createJsonPatchSchema();
+
+/**
+ * Create a schema for fixing validation errors via patches.
+ */
+export function createPatchFunctionErrorsSchema(
+  options: PatchSchemaOptions = {}
+) {
+  return z.object({
+    json_doc_id: z
+      .string()
+      .describe("The json_doc_id of the function you are patching."),
+    planned_edits: z
+      .string()
+      .describe(
+        "Second, write a bullet-point list of each ValidationError you encountered and the corresponding JSONPatch operation needed to heal it. For each operation, write why your initial guess was incorrect, citing the corresponding types(s) from the JSONSchema that will be used to validate the resultant patched document. Think step-by-step to ensure no error is overlooked."
+      ),
+    patches: z
+      .array(createJsonPatchSchema(options))
+      .describe(
+        "Finally, provide a list of JSONPatch operations to be applied to the previous tool call's response arguments. If none are required, return an empty list. This field is REQUIRED. Multiple patches in the list are applied sequentially in the order provided, with each patch building upon the result of the previous one."
+      ),
+  });
+}
 
 /**
  * Schema for fixing validation errors via patches.
  */
-export const PatchFunctionErrorsSchema = z.object({
+export const PatchFunctionErrorsSchema = createPatchFunctionErrorsSchema();
+
+/**
+ * Create a schema for updating existing documents via patches.
+ */
+export function createPatchDocSchema(options: PatchSchemaOptions = {}) {
+  return z.object({
+    json_doc_id: z
+      .string()
+      .describe("The json_doc_id of the document you are patching."),
+    planned_edits: z
+      .string()
+      .describe(
+        "Seconds, think step-by-step, reasoning over each required update and the corresponding JSONPatch operation to accomplish it. Cite the fields in the JSONSchema you referenced in developing this plan. Address each path as a group; don't switch between paths. Plan your patches in the following order:1. replace - this keeps collection size the same.2. remove - BE CAREFUL ABOUT ORDER OF OPERATIONS. Each operation is applied sequentially. For arrays, remove the highest indexed value first to avoid shifting indices. This ensures subsequent remove operations remain valid.3. add (for arrays, use /- to efficiently append to end)."
+      ),
+    patches: z
+      .array(createJsonPatchSchema(options))
+      .describe(
+        "Finally, provide a list of JSONPatch operations to be applied to the existing document. Take care to respect array bounds. Order patches as follows:\n 1. replace - this keeps collection size the same\n 2. remove - BE CAREFUL about order of operations. For arrays, remove the highest indexed value first to avoid shifting indices.\n 3. add - for arrays, use /- to efficiently append to end."
+      ),
+  });
+}
+
+/**
+ * Schema for updating existing documents via patches.
+ */
+export const PatchDocSchema = createPatchDocSchema();
+
+/**
+ * Schema for updating existing documents via JSON Merge Patch (RFC 7386).
+ */
+export const MergePatchDocSchema = z.object({
   json_doc_id: z
     .string()
-    .describe("The json_doc_id of the function you are patching."),
+    .describe("The json_doc_id of the document you are patching."),
   planned_edits: z
     .string()
     .describe(
-      "Second, write a bullet-point list of each ValidationError you encountered and the corresponding JSONPatch operation needed to heal it. For each operation, write why your initial guess was incorrect, citing the corresponding types(s) from the JSONSchema that will be used to validate the resultant patched document. Think step-by-step to ensure no error is overlooked."
+      "First, think step-by-step, reasoning over each required update, citing the fields in the JSONSchema you referenced."
     ),
-  patches: z
-    .array(JsonPatchSchema)
+  patch: z
+    .object({})
+    .passthrough()
     .describe(
-      "Finally, provide a list of JSONPatch operations to be applied to the previous tool call's response arguments. If none are required, return an empty list. This field is REQUIRED. Multiple patches in the list are applied sequentially in the order provided, with each patch building upon the result of the previous one."
+      "Finally, provide a JSON Merge Patch to merge into the existing document. Include only the fields that change: nested objects are merged key by key, a null value removes the field, and any other value, including an array, replaces the field entirely. To change an array, give the complete new array."
     ),
 });
 
 /**
- * Schema for updating existing documents via patches.
+ * Schema for updating existing documents by rewriting them in full.
  */
-export const PatchDocSchema = z.object({
+export const ReplaceDocSchema = z.object({
   json_doc_id: z
     .string()
-    .describe("The json_doc_id of the document you are patching."),
+    .describe("The json_doc_id of the document you are rewriting."),
   planned_edits: z
     .string()
     .describe(
-      "Seconds, think step-by-step, reasoning over each required update and the corresponding JSONPatch operation to accomplish it. Cite the fields in the JSONSchema you referenced in developing this plan. Address each path as a group; don't switch between paths. Plan your patches in the following order:1. replace - this keeps collection size the same.2. remove - BE CAREFUL ABOUT ORDER OF OPERATIONS. Each operation is applied sequentially. For arrays, remove the highest indexed value first to avoid shifting indices. This ensures subsequent remove operations remain valid.3. add (for arrays, use /- to efficiently append to end)."
+      "First, think step-by-step, reasoning over each required update, citing the fields in the JSONSchema you referenced."
     ),
-  patches: z
-    .array(JsonPatchSchema)
+  document: z
+    .object({})
+    .passthrough()
     .describe(
-      "Finally, provide a list of JSONPatch operations to be applied to the existing document. Take care to respect array bounds. Order patches as follows:\n 1. replace - this keeps collection size the same\n 2. remove - BE CAREFUL about order of operations. For arrays, remove the highest indexed value first to avoid shifting indices.\n 3. add - for arrays, use /- to efficiently append to end."
+      "Finally, provide the complete updated document. Fields you leave out are removed, so copy over everything that doesn't change. It must conform to the document's JSONSchema."
     ),
 });
 
 /**
- * Create a schema for removing documents by ID.
+ * Create a schema for removing documents by ID. With `requireReasoning`, the
+ * model must also explain why, which makes it less eager to delete.
  */
-export function createRemoveDocSchema(allowedIds: string[]) {
-  return z.object({
+export function createRemoveDocSchema(
+  allowedIds: string[],
+  options: { requireReasoning?: boolean } = {}
+) {
+  const schema = z.object({
     json_doc_id: z
       .string()
       .refine((val) => allowedIds.includes(val), {
@@ -76,6 +159,18 @@ export function createRemoveDocSchema(allowedIds: string[]) {
         `ID of the document to remove. Must be one of: ${allowedIds.join(", ")}`
       ),
   });
+  if (!options.requireReasoning) {
+    return schema;
+  }
+  return schema.extend({
+    reasoning: z
+      .string()
+      .trim()
+      .min(1, "Explain why the document should be removed")
+      .describe(
+        "Why this document should be removed, citing the conversation. Only remove documents that are explicitly contradicted, obsolete or that the user asked to forget."
+      ),
+  });
 }
 
 /**
@@ -103,3 +198,5 @@ export function createPatchFunctionNameSchema(validToolNames?: string[]) {
 export type JsonPatch = z.infer<typeof JsonPatchSchema>;
 export type PatchFunctionErrors = z.infer<typeof PatchFunctionErrorsSchema>;
 export type PatchDoc = z.infer<typeof PatchDocSchema>;
+export type MergePatchDoc = z.infer<typeof MergePatchDocSchema>;
+export type ReplaceDoc = z.infer<typeof ReplaceDocSchema>;
@@ -0,0 +1,148 @@
+import { ConcurrencyConflictError } from "./errors.js";
+import type { DocumentConflict } from "./types.js";
+
+/**
+ * A document kept in a DocumentStore.
+ */
+export interface StoredDocument {
+  /** The document's id, used as its `recordId` when it is updated */
+  key: string;
+  /** The name of the schema the document conforms to */
+  schemaName: string;
+  value: Record<string, unknown>;
+  /** Set by the store, and changed by every write to the document */
+  version?: string | number;
+}
+
+/**
+ * A change to write to a DocumentStore. With `expectedVersion`, the write
+ * only applies if the document is still at that version.
+ */
+export type StoreWrite = (
+  | ({ op: "put" } & Omit<StoredDocument, "version">)
+  | { op: "delete"; key: string }
+) & { expectedVersion?: string | number };
+
+/**
+ * Where an extractor loads existing documents from and saves its results.
+ * Documents are grouped by namespace, e.g. `["memories", userId]`.
+ */
+export interface DocumentStore {
+  get(namespace: string[], key: string): Promise<StoredDocument | undefined>;
+  /** All documents in the namespace, in the order they were first added */
+  list(namespace: string[]): Promise<StoredDocument[]>;
+  /** The documents that best match `query`, best first */
+  search(
+    namespace: string[],
+    query: string,
+    options?: { limit?: number }
+  ): Promise<StoredDocument[]>;
+  put(namespace: string[], document: StoredDocument): Promise<void>;
+  delete(namespace: string[], key: string): Promise<void>;
+  /**
+   * Apply several writes atomically: either all of them or none. Throws a
+   * ConcurrencyConflictError if any `expectedVersion` doesn't match.
+   */
+  write(namespace: string[], writes: StoreWrite[]): Promise<void>;
+}
+
+/**
+ * Rank documents by how many of the query's words they contain. This is a
+ * simple reference for stores without their own search.
+ */
+export function searchDocuments(
+  documents: StoredDocument[],
+  query: string,
+  limit = 10
+): StoredDocument[] {
+  const terms = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return documents
+    .map((document) => {
+      const text = JSON.stringify(document.value).toLowerCase();
+      return {
+        document,
+        score: terms.filter((term) => text.includes(term)).length,
+      };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ document }) => document);
+}
+
+/**
+ * Apply writes to a map of documents by key, in place, numbering versions
+ * from 1. Nothing is applied if any write's expected version doesn't match.
+ */
+export function applyStoreWrites(
+  documents: Map<string, StoredDocument>,
+  writes: StoreWrite[]
+): void {
+  const conflicts: DocumentConflict[] = [];
+  for (const { key, expectedVersion } of writes) {
+    const actualVersion = documents.get(key)?.version;
+    if (expectedVersion !== undefined && actualVersion !== expectedVersion) {
+      conflicts.push({ key, expectedVersion, actualVersion });
+    }
+  }
+  if (conflicts.length > 0) {
+    throw new ConcurrencyConflictError(conflicts);
+  }
+
+  for (const write of writes) {
+    if (write.op === "put") {
+      const { key, schemaName, value } = write;
+      const previous = documents.get(key)?.version;
+      const version = typeof previous === "number" ? previous + 1 : 1;
+      documents.set(key, { key, schemaName, value, version });
+    } else {
+      documents.delete(write.key);
+    }
+  }
+}
+
+/**
+ * A DocumentStore that keeps documents in memory, e.g. for tests.
+ */
+export class InMemoryDocumentStore implements DocumentStore {
+  private namespaces = new Map<string, Map<string, StoredDocument>>();
+
+  private documents(namespace: string[]): Map<string, StoredDocument> {
+    const id = JSON.stringify(namespace);
+    let documents = this.namespaces.get(id);
+    if (!documents) {
+      documents = new Map();
+      this.namespaces.set(id, documents);
+    }
+    return documents;
+  }
+
+  async get(namespace: string[], key: string) {
+    const document = this.documents(namespace).get(key);
+    return document && structuredClone(document);
+  }
+
+  async list(namespace: string[]) {
+    return structuredClone(Array.from(this.documents(namespace).values()));
+  }
+
+  async search(
+    namespace: string[],
+    query: string,
+    options: { limit?: number } = {}
+  ) {
+    return searchDocuments(await this.list(namespace), query, options.limit);
+  }
+
+  async put(namespace: string[], document: StoredDocument) {
+    await this.write(namespace, [{ op: "put", ...document }]);
+  }
+
+  async delete(namespace: string[], key: string) {
+    await this.write(namespace, [{ op: "delete", key }]);
+  }
+
+  async write(namespace: string[], writes: StoreWrite[]) {
+    applyStoreWrites(this.documents(namespace), structuredClone(writes));
+  }
+}
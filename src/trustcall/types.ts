@@ -12,6 +12,12 @@ export interface SchemaInstance {
   schemaName: string | "__any__";
   /** The actual data of the record */
   record: Record<string, unknown>;
+  /**
+   * The record's version or etag in your storage. Updates based on it are
+   * reported with it as `baseVersion`, and stores only save them if the
+   * record is still at this version.
+   */
+  version?: string | number;
 }
 
 /**
@@ -22,6 +28,40 @@ export type ExistingType =
   | SchemaInstance[]
   | Array<[string, string, Record<string, unknown>]>;
 
+/**
+ * A problem found while validating a value.
+ */
+export interface ValidationIssue {
+  /** Location of the problem within the value */
+  path: Array<string | number>;
+  message: string;
+}
+
+/**
+ * The outcome of validating a value.
+ */
+export type ValidationResult<T = unknown> =
+  | { success: true; value: T }
+  | {
+      success: false;
+      issues: ValidationIssue[];
+      /** The error raised by the underlying library, if any */
+      error?: Error;
+    };
+
+/**
+ * A schema backend that can check tool call arguments and describe them
+ * to the model. See `validators.ts` for adapters.
+ */
+export interface Validator<T = unknown> {
+  /** Validate a value, returning the (possibly transformed) value on success */
+  parse(value: unknown): ValidationResult<T> | Promise<ValidationResult<T>>;
+  /** The JSON Schema the model is given for the value */
+  toJsonSchema(): Record<string, unknown>;
+  /** Explain validation issues to the model */
+  describeErrors(issues: ValidationIssue[]): string;
+}
+
 /**
  * Tool types that can be used with the extractor.
  */
@@ -35,8 +75,99 @@ export type ToolType =
       name: string;
       description?: string;
       parameters: Record<string, unknown>;
+    }
+  | {
+      name: string;
+      description?: string;
+      validator: Validator;
     };
 
+declare const schemaNameBrand: unique symbol;
+
+/**
+ * A Zod schema whose name is also known at the type level.
+ * Create one with `namedSchema`.
+ */
+export type NamedSchema<
+  N extends string,
+  S extends z.ZodTypeAny = z.ZodTypeAny,
+> = S & { readonly [schemaNameBrand]?: N };
+
+/**
+ * Name a Zod schema. Equivalent to `schema.describe(name)` at runtime, but
+ * keeps the name as a literal type so extractor results can be narrowed on
+ * `schemaName`.
+ */
+export function namedSchema<const N extends string, S extends z.ZodTypeAny>(
+  name: N,
+  schema: S
+): NamedSchema<N, S> {
+  return schema.describe(name) as NamedSchema<N, S>;
+}
+
+/**
+ * The name a tool is registered under, as precisely as the type allows.
+ */
+export type ToolName<T> = T extends { readonly [schemaNameBrand]?: infer N }
+  ? unknown extends N
+    ? FallbackToolName<T>
+    : N & string
+  : FallbackToolName<T>;
+
+type FallbackToolName<T> = T extends { name: infer N extends string }
+  ? N
+  : string;
+
+/**
+ * The type of a validated response for a tool.
+ */
+export type ToolValue<T> = T extends z.ZodTypeAny
+  ? z.infer<T>
+  : T extends { schema: infer S extends z.ZodTypeAny }
+    ? z.infer<S>
+    : T extends { validator: Validator<infer V> }
+      ? V
+      : Record<string, unknown>;
+
+/**
+ * The tool in `T` registered under name `N`.
+ */
+export type ToolNamed<T, N> = T extends unknown
+  ? N extends ToolName<T>
+    ? T
+    : never
+  : never;
+
+/**
+ * A schema instance typed against a set of tools.
+ */
+export type TypedSchemaInstance<T> = T extends unknown
+  ? {
+      recordId: string;
+      schemaName: ToolName<T>;
+      record: ToolValue<T>;
+      version?: string | number;
+    }
+  : never;
+
+/**
+ * Existing documents typed against a set of tools.
+ */
+export type TypedExisting<T> =
+  | { [N in ToolName<T>]?: ToolValue<ToolNamed<T, N>> }
+  | Array<
+      | TypedSchemaInstance<T>
+      | {
+          recordId: string;
+          schemaName: "__any__";
+          record: Record<string, unknown>;
+        }
+    >
+  | Array<
+      | (T extends unknown ? [string, ToolName<T>, ToolValue<T>] : never)
+      | [string, "__any__", Record<string, unknown>]
+    >;
+
 /**
  * JSON Patch operation types based on RFC 6902.
  */
@@ -56,6 +187,35 @@ export interface ToolCall {
   args: Record<string, unknown>;
 }
 
+/**
+ * A tool call that still failed validation after all repair attempts.
+ */
+export interface ExtractionError {
+  /** The name of the tool the call was made to */
+  toolName: string;
+  /** The id of the failing tool call */
+  toolCallId: string;
+  /** The arguments of the last attempt */
+  args: Record<string, unknown>;
+  /** Why the arguments are invalid */
+  issues: z.ZodIssue[];
+  /** How many repair rounds were spent on the call */
+  repairAttempts: number;
+}
+
+/**
+ * A write that was not applied because the document changed since it was
+ * read.
+ */
+export interface DocumentConflict {
+  /** The id of the document */
+  key: string;
+  /** The version the write was based on */
+  expectedVersion: string | number;
+  /** The document's current version, or undefined if it was deleted */
+  actualVersion?: string | number;
+}
+
 /**
  * Internal extraction state.
  */
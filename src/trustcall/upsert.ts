@@ -0,0 +1,150 @@
+import type { ExistingType, JsonPatchOp, SchemaInstance } from "./types.js";
+import type { ExtractionOutputs, NamedResponse } from "./extractor.js";
+import { deepEqual } from "./utils.js";
+import { diffJson } from "./json-diff.js";
+
+/**
+ * The record ids an extraction inserted, changed and removed.
+ */
+export interface ExtractionChangelog {
+  inserted: string[];
+  updated: string[];
+  removed: string[];
+  /** For each updated record, the patches from its old to its new value */
+  diffs: Record<string, JsonPatchOp[]>;
+}
+
+/**
+ * The collection after applying an extraction, with what changed. Records
+ * are typed after the extraction's responses.
+ */
+export interface AppliedExtraction<
+  TResponse extends NamedResponse = NamedResponse,
+> {
+  instances: NamedResponse extends TResponse
+    ? SchemaInstance[]
+    : Array<
+        | (TResponse extends unknown
+            ? {
+                recordId: string;
+                schemaName: TResponse["schemaName"];
+                record: TResponse["value"];
+                version?: string | number;
+              }
+            : never)
+        | {
+            recordId: string;
+            schemaName: "__any__";
+            record: Record<string, unknown>;
+            version?: string | number;
+          }
+      >;
+  changelog: ExtractionChangelog;
+}
+
+/**
+ * Existing documents in any of the accepted forms, as SchemaInstances.
+ */
+export function toInstances(
+  existing: ExistingType | undefined
+): SchemaInstance[] {
+  if (!existing) {
+    return [];
+  }
+  if (Array.isArray(existing)) {
+    return existing.map((item) =>
+      Array.isArray(item)
+        ? { recordId: item[0], schemaName: item[1], record: item[2] }
+        : item
+    );
+  }
+  return Object.entries(existing).map(([name, record]) => ({
+    recordId: name,
+    schemaName: name,
+    record: record as Record<string, unknown>,
+  }));
+}
+
+/**
+ * Apply the results of an extraction to the documents it was given, so the
+ * whole collection can be persisted:
+ *
+ * - documents updated with PatchDoc replace the existing record with the
+ *   same id, keeping its position
+ * - documents in `removedDocIds` are dropped
+ * - new documents are appended, with their `recordId` from collection mode
+ *   if there is one, and the id of the tool call that created them
+ *   otherwise
+ *
+ * Existing documents in the `{ [schemaName]: record }` form become instances
+ * whose `recordId` is the schema name. Only unchanged documents keep their
+ * `version`. The inputs are not modified.
+ *
+ * @example
+ * ```typescript
+ * const result = await extractor.invoke({ messages, existing: memories });
+ * const { instances, changelog } = applyExtraction(memories, result);
+ * await db.save(instances);
+ * console.log(`${changelog.inserted.length} new memories`);
+ * ```
+ */
+export function applyExtraction<TResponse extends NamedResponse>(
+  existing: ExistingType | undefined,
+  outputs: {
+    namedResponses: TResponse[];
+    responseMetadata: ExtractionOutputs["responseMetadata"];
+    removedDocIds: string[];
+  }
+): AppliedExtraction<TResponse> {
+  const original = new Map(
+    toInstances(existing).map((instance) => [instance.recordId, instance])
+  );
+  const records = new Map<string, SchemaInstance>(original);
+  const changelog: ExtractionChangelog = {
+    inserted: [],
+    updated: [],
+    removed: [],
+    diffs: {},
+  };
+
+  for (const [i, response] of outputs.namedResponses.entries()) {
+    const { schemaName, value, id } = response as {
+      schemaName: string;
+      value: Record<string, unknown>;
+      id: string;
+    };
+    const metadata = outputs.responseMetadata[i];
+    const recordId = metadata?.jsonDocId ?? metadata?.recordId ?? id;
+    const previous = records.get(recordId);
+    if (
+      previous?.schemaName === schemaName &&
+      deepEqual(previous.record, value)
+    ) {
+      // Unchanged, so it keeps its version
+      continue;
+    }
+    records.set(recordId, { recordId, schemaName, record: value });
+    changelog[previous ? "updated" : "inserted"].push(recordId);
+  }
+
+  for (const removedId of outputs.removedDocIds) {
+    if (records.delete(removedId)) {
+      changelog.removed.push(removedId);
+      changelog.updated = changelog.updated.filter((id) => id !== removedId);
+    }
+  }
+
+  for (const id of changelog.updated) {
+    changelog.diffs[id] = diffJson(
+      original.get(id)?.record,
+      records.get(id)?.record
+    );
+  }
+
+  return {
+    instances: Array.from(
+      records.values()
+    ) as AppliedExtraction<TResponse>["instances"],
+    changelog,
+  };
+}
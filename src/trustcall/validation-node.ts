@@ -7,12 +7,26 @@ import {
 } from "@langchain/core/messages";
 import type { RunnableConfig } from "@langchain/core/runnables";
 import type { StructuredToolInterface } from "@langchain/core/tools";
-import type { ToolCall, ToolType } from "./types.js";
+import type { ToolCall, ToolType, Validator } from "./types.js";
 import { isZodSchema, getSchemaName } from "./types.js";
+import { jsonSchemaToZod } from "./json-schema.js";
+import {
+  jsonSchemaValidator,
+  runValidator,
+  zodValidator,
+} from "./validators.js";
+import { ValidationError } from "./errors.js";
 
 export interface ValidationNodeOptions {
-  /** Custom error formatter */
-  formatError?: (error: Error, call: ToolCall, schema: z.ZodSchema) => string;
+  /**
+   * Custom error formatter. `schema` is the tool's Zod schema, or its
+   * validator for tools defined with one.
+   */
+  formatError?: (
+    error: Error,
+    call: ToolCall,
+    schema: z.ZodSchema | Validator
+  ) => string;
   /** Node name for tracing */
   name?: string;
   /** Tags for tracing */
@@ -25,12 +39,11 @@ export interface ValidationNodeOptions {
 function defaultFormatError(
   error: Error,
   _call: ToolCall,
-  _schema: z.ZodSchema
+  _schema: z.ZodSchema | Validator
 ): string {
   return `${error.message}\n\nRespond after fixing all validation errors.`;
 }
 
-
 /**
  * A node that validates all tool calls from the last AIMessage.
  *
@@ -40,10 +53,12 @@ function defaultFormatError(
  */
 export class ValidationNode {
   public schemasByName: Map<string, z.ZodSchema>;
+  /** Validators for every tool, including tools without a Zod schema */
+  public validatorsByName: Map<string, Validator>;
   private formatError: (
     error: Error,
     call: ToolCall,
-    schema: z.ZodSchema
+    schema: z.ZodSchema | Validator
   ) => string;
   public name: string;
   public tags: string[];
@@ -53,6 +68,7 @@ export class ValidationNode {
     this.name = options.name || "validation";
     this.tags = options.tags || [];
     this.schemasByName = new Map();
+    this.validatorsByName = new Map();
 
     for (const schema of schemas) {
       if (isZodSchema(schema)) {
@@ -61,20 +77,39 @@ export class ValidationNode {
         this.schemasByName.set(name, schema);
       } else if (this.isStructuredTool(schema)) {
         // Structured tool
-        if (schema.schema) {
-          this.schemasByName.set(schema.name, schema.schema as z.ZodSchema);
+        if (isZodSchema(schema.schema)) {
+          this.schemasByName.set(schema.name, schema.schema);
+        } else if (schema.schema) {
+          // Structured tool defined with a JSON schema
+          this.addJsonSchema(
+            schema.name,
+            schema.schema as Record<string, unknown>
+          );
         }
       } else if (typeof schema === "function") {
         // Function - create schema from function
         this.schemasByName.set(schema.name, z.object({}).passthrough());
+      } else if (typeof schema === "object" && "validator" in schema) {
+        // Dict with name, description, validator
+        this.validatorsByName.set(schema.name, schema.validator);
       } else if (typeof schema === "object" && "name" in schema) {
         // Dict with name, description, parameters
-        const zodSchema = this.jsonSchemaToZod(schema.parameters);
-        this.schemasByName.set(schema.name, zodSchema);
+        this.addJsonSchema(schema.name, schema.parameters);
+      }
+    }
+
+    for (const [name, schema] of this.schemasByName) {
+      if (!this.validatorsByName.has(name)) {
+        this.validatorsByName.set(name, zodValidator(schema));
       }
     }
   }
 
+  private addJsonSchema(name: string, parameters: Record<string, unknown>) {
+    this.schemasByName.set(name, jsonSchemaToZod(parameters));
+    this.validatorsByName.set(name, jsonSchemaValidator(parameters));
+  }
+
   private isStructuredTool(obj: unknown): obj is StructuredToolInterface {
     return (
       typeof obj === "object" &&
@@ -84,83 +119,6 @@ export class ValidationNode {
     );
   }
 
-  private jsonSchemaToZod(schema: Record<string, unknown>): z.ZodSchema {
-    return this._convertJsonSchema(schema);
-  }
-
-  /**
-   * Recursively convert a JSON Schema object to a Zod schema.
-   * Handles common types: string, number, integer, boolean, null, array, object, enum.
-   * Falls back to z.unknown() for unsupported features.
-   */
-  private _convertJsonSchema(schema: Record<string, unknown>): z.ZodSchema {
-    if (!schema || typeof schema !== 'object') {
-      return z.unknown();
-    }
-
-    // Handle enum
-    if (Array.isArray(schema.enum)) {
-      const values = schema.enum as [string, ...string[]];
-      if (values.length > 0 && values.every((v) => typeof v === 'string')) {
-        return z.enum(values as [string, ...string[]]);
-      }
-      const literals = values.map((v) => z.literal(v as string | number | boolean));
-      if (literals.length >= 2) {
-        return z.union(literals as unknown as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
-      }
-      return literals[0] ?? z.unknown();
-    }
-
-    // Handle const
-    if ('const' in schema) {
-      return z.literal(schema.const as string | number | boolean);
-    }
-
-    const type = schema.type as string | undefined;
-
-    switch (type) {
-      case 'string':
-        return z.string();
-      case 'number':
-      case 'integer':
-        return z.number();
-      case 'boolean':
-        return z.boolean();
-      case 'null':
-        return z.null();
-      case 'array': {
-        const items = schema.items as Record<string, unknown> | undefined;
-        if (items) {
-          return z.array(this._convertJsonSchema(items));
-        }
-        return z.array(z.unknown());
-      }
-      case 'object': {
-        const properties = schema.properties as Record<string, Record<string, unknown>> | undefined;
-        const required = (schema.required as string[]) || [];
-        if (properties) {
-          const shape: Record<string, z.ZodTypeAny> = {};
-          for (const [key, propSchema] of Object.entries(properties)) {
-            const converted = this._convertJsonSchema(propSchema);
-            shape[key] = required.includes(key) ? converted : converted.optional();
-          }
-          if (schema.additionalProperties !== false) {
-            return z.object(shape).passthrough();
-          }
-          return z.object(shape);
-        }
-        return z.object({}).passthrough();
-      }
-      default:
-        // No type specified or unsupported type
-        if (schema.properties) {
-          // Treat as object if it has properties
-          return this._convertJsonSchema({ ...schema, type: 'object' });
-        }
-        return z.unknown();
-    }
-  }
-
   /**
    * Get the last AIMessage from input.
    */
@@ -190,21 +148,21 @@ export class ValidationNode {
   /**
    * Validate a single tool call.
    */
-  private validateOne(call: {
+  private async validateOne(call: {
     id?: string;
     name: string;
     args: Record<string, unknown>;
-  }): ToolMessage {
+  }): Promise<ToolMessage> {
     const toolCall: ToolCall = {
       id: call.id || "",
       name: call.name,
       args: call.args as Record<string, unknown>,
     };
 
-    const schema = this.schemasByName.get(toolCall.name);
+    const validator = this.validatorsByName.get(toolCall.name);
 
-    if (!schema) {
-      const validNames = Array.from(this.schemasByName.keys()).join(", ");
+    if (!validator) {
+      const validNames = Array.from(this.validatorsByName.keys()).join(", ");
       return new ToolMessage({
         content: `Unrecognized tool name: "${toolCall.name}". You only have access to the following tools: ${validNames}. Please call PatchFunctionName with the *correct* tool name to fix json_doc_id=[${toolCall.id}].`,
         tool_call_id: toolCall.id,
@@ -214,24 +172,28 @@ export class ValidationNode {
       });
     }
 
-    try {
-      const result = schema.parse(toolCall.args);
+    const result = await runValidator(validator, toolCall.args);
+    if (result.success) {
       return new ToolMessage({
-        content: JSON.stringify(result),
+        content: JSON.stringify(result.value),
         tool_call_id: toolCall.id,
         name: toolCall.name,
         status: "success",
-      });
-    } catch (e) {
-      const error = e instanceof Error ? e : new Error(String(e));
-      return new ToolMessage({
-        content: this.formatError(error, toolCall, schema),
-        tool_call_id: toolCall.id,
-        name: toolCall.name,
-        status: "error",
-        additional_kwargs: { is_error: true },
+        artifact: result.value,
       });
     }
+
+    const message = validator.describeErrors(result.issues);
+    const error = result.error ?? new ValidationError(message, result.issues);
+    const schema = this.schemasByName.get(toolCall.name) ?? validator;
+    return new ToolMessage({
+      content: this.formatError(error, toolCall, schema),
+      tool_call_id: toolCall.id,
+      name: toolCall.name,
+      status: "error",
+      artifact: error,
+      additional_kwargs: { is_error: true },
+    });
   }
 
   /**
@@ -248,13 +210,11 @@ export class ValidationNode {
     // Run validations in parallel
     const outputs = await Promise.all(
       toolCalls.map((call) =>
-        Promise.resolve(
-          this.validateOne({
-            id: call.id,
-            name: call.name,
-            args: call.args as Record<string, unknown>,
-          })
-        )
+        this.validateOne({
+          id: call.id,
+          name: call.name,
+          args: call.args as Record<string, unknown>,
+        })
       )
     );
 
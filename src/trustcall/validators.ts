@@ -0,0 +1,233 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { ValidationIssue, ValidationResult, Validator } from "./types.js";
+import { formatJsonPointer } from "./json-patch.js";
+import {
+  jsonSchemaToZod,
+  subschemaAt,
+  type JsonSchema,
+} from "./json-schema.js";
+
+/**
+ * The Standard Schema interface (https://standardschema.dev) implemented by
+ * Valibot, ArkType, Zod 3.24+ and others.
+ */
+export interface StandardSchemaV1<Output = unknown> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+  };
+}
+
+type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | {
+      readonly issues: ReadonlyArray<{
+        readonly message: string;
+        readonly path?: ReadonlyArray<
+          PropertyKey | { readonly key: PropertyKey }
+        >;
+      }>;
+    };
+
+/**
+ * List each issue on its own line, prefixed with the JSON Pointer of the
+ * offending value.
+ */
+export function describeIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${formatJsonPointer(issue.path)}: ${issue.message}`
+        : issue.message
+    )
+    .join("\n");
+}
+
+/** Longest current value shown per issue, in characters of JSON */
+const MAX_VALUE_LENGTH = 500;
+
+function valueAt(value: unknown, path: Array<string | number>): unknown {
+  let current = value;
+  for (const key of path) {
+    if (typeof current !== "object" || current === null) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function describeValue(value: unknown): string {
+  if (value === undefined) {
+    return "(missing)";
+  }
+  const json = JSON.stringify(value);
+  return json.length > MAX_VALUE_LENGTH
+    ? `${json.slice(0, MAX_VALUE_LENGTH)}... (truncated)`
+    : json;
+}
+
+/**
+ * Describe issues for a repair prompt. Issues are grouped by JSON Pointer,
+ * and each path is shown with the value currently there and only the part of
+ * `schema` that applies to it, so large schemas stay out of the prompt.
+ * Paths the schema doesn't describe fall back to the nearest ancestor's
+ * subschema.
+ */
+export function describeIssuesInContext(
+  issues: ValidationIssue[],
+  value: unknown,
+  schema: JsonSchema
+): string {
+  const byPath = new Map<string, ValidationIssue[]>();
+  for (const issue of issues) {
+    const pointer = formatJsonPointer(issue.path);
+    byPath.set(pointer, [...(byPath.get(pointer) ?? []), issue]);
+  }
+
+  return Array.from(byPath, ([pointer, group]) => {
+    const path = group[0]?.path ?? [];
+    const lines = [
+      `Path: ${pointer === "" ? '"" (the whole document)' : pointer}`,
+      ...group.map((issue) => `Error: ${issue.message}`),
+      `Current value: ${describeValue(valueAt(value, path))}`,
+    ];
+    for (let depth = path.length; depth >= 0; depth--) {
+      const subschema = subschemaAt(schema, path.slice(0, depth));
+      if (subschema !== undefined) {
+        const at =
+          depth === path.length
+            ? ""
+            : ` (at ${formatJsonPointer(path.slice(0, depth)) || '""'})`;
+        lines.push(
+          `Expected schema${at}:`,
+          "```json",
+          JSON.stringify(subschema, null, 2),
+          "```"
+        );
+        break;
+      }
+    }
+    return lines.join("\n");
+  }).join("\n\n");
+}
+
+/**
+ * Validate with a Zod schema. This is what plain Zod tools use.
+ */
+export function zodValidator<S extends z.ZodTypeAny>(
+  schema: S
+): Validator<z.infer<S>> {
+  return {
+    async parse(value) {
+      const result = await schema.safeParseAsync(value);
+      return result.success
+        ? { success: true, value: result.data }
+        : { success: false, issues: result.error.issues, error: result.error };
+    },
+    toJsonSchema: () => zodToJsonSchema(schema) as Record<string, unknown>,
+    describeErrors: (issues) => new z.ZodError(issues as z.ZodIssue[]).message,
+  };
+}
+
+/**
+ * Validate against a JSON Schema, converted with `jsonSchemaToZod`. The model
+ * is given the schema exactly as written.
+ */
+export function jsonSchemaValidator(
+  schema: Record<string, unknown>
+): Validator<Record<string, unknown>> {
+  const zodSchema = jsonSchemaToZod(schema as JsonSchema);
+  return {
+    async parse(value) {
+      const result = await zodSchema.safeParseAsync(value);
+      return result.success
+        ? { success: true, value: result.data }
+        : { success: false, issues: result.error.issues };
+    },
+    toJsonSchema: () => schema,
+    describeErrors: describeIssues,
+  };
+}
+
+/**
+ * Validate with any Standard Schema library, such as Valibot or ArkType.
+ * These libraries don't expose a JSON Schema through Standard Schema, so it
+ * has to be given, e.g. from `@valibot/to-json-schema` or ArkType's
+ * `toJsonSchema()`.
+ */
+export function standardSchemaValidator<T>(
+  schema: StandardSchemaV1<T>,
+  jsonSchema: Record<string, unknown>
+): Validator<T> {
+  return {
+    async parse(value) {
+      const result = await schema["~standard"].validate(value);
+      if (!result.issues) {
+        return { success: true, value: result.value };
+      }
+      return {
+        success: false,
+        issues: result.issues.map((issue) => ({
+          message: issue.message,
+          path: (issue.path ?? []).map((segment) => {
+            const key = typeof segment === "object" ? segment.key : segment;
+            return typeof key === "number" ? key : String(key);
+          }),
+        })),
+      };
+    },
+    toJsonSchema: () => jsonSchema,
+    describeErrors: describeIssues,
+  };
+}
+
+/**
+ * Validate with a function.
+ *
+ * @example
+ * ```typescript
+ * const Order = customValidator({
+ *   jsonSchema: { type: "object", properties: { sku: { type: "string" } } },
+ *   parse: (value) =>
+ *     isOrder(value)
+ *       ? { success: true, value }
+ *       : { success: false, issues: [{ path: ["sku"], message: "Unknown SKU" }] },
+ * });
+ * ```
+ */
+export function customValidator<T>(options: {
+  parse: Validator<T>["parse"];
+  jsonSchema: Record<string, unknown>;
+  describeErrors?: Validator<T>["describeErrors"];
+}): Validator<T> {
+  return {
+    parse: options.parse,
+    toJsonSchema: () => options.jsonSchema,
+    describeErrors: options.describeErrors ?? describeIssues,
+  };
+}
+
+/**
+ * Run a validator, turning thrown errors into a failed result so that
+ * broken validators surface as validation errors.
+ */
+export async function runValidator<T>(
+  validator: Validator<T>,
+  value: unknown
+): Promise<ValidationResult<T>> {
+  try {
+    return await validator.parse(value);
+  } catch (e) {
+    const error = e instanceof Error ? e : new Error(String(e));
+    return {
+      success: false,
+      issues: [{ path: [], message: error.message }],
+      error,
+    };
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { coerceToSchema } from "../src/trustcall/coercion.js";
+
+const Person = z
+  .object({
+    name: z.string(),
+    age: z.number().int(),
+    employed: z.boolean(),
+    role: z.enum(["Admin", "Member"]),
+    tags: z.array(z.string()),
+    nickname: z.string().optional(),
+  })
+  .strict();
+const schema = zodToJsonSchema(Person);
+
+/** Coerce `value` against Person, using the issues Zod reports for it */
+function repair(value: Record<string, unknown>) {
+  const result = Person.safeParse(value);
+  return coerceToSchema(value, result.error?.issues ?? [], schema);
+}
+
+const valid = {
+  name: "Alice",
+  age: 30,
+  employed: true,
+  role: "Admin",
+  tags: ["a"],
+};
+
+describe("coerceToSchema", () => {
+  it("should convert primitives to the expected type", () => {
+    const { value, coercions } = repair({
+      ...valid,
+      name: 42,
+      age: "30",
+      employed: "False",
+    });
+    expect(value).toEqual({ ...valid, name: "42", employed: false });
+    expect(coercions).toEqual([
+      { path: "/name", rule: "to_string", from: 42, to: "42" },
+      { path: "/age", rule: "string_to_number", from: "30", to: 30 },
+      {
+        path: "/employed",
+        rule: "string_to_boolean",
+        from: "False",
+        to: false,
+      },
+    ]);
+  });
+
+  it("should not round numbers for integer fields", () => {
+    const { coercions } = repair({ ...valid, age: "30.5" });
+    expect(coercions).toEqual([]);
+  });
+
+  it("should match enum values regardless of case", () => {
+    const { value, coercions } = repair({ ...valid, role: "admin" });
+    expect(value).toEqual(valid);
+    expect(coercions[0]?.rule).toBe("enum_case");
+  });
+
+  it("should wrap single values in an array", () => {
+    const { value } = repair({ ...valid, tags: "a" });
+    expect(value).toEqual(valid);
+  });
+
+  it("should drop null optional fields and unknown keys", () => {
+    const { value, coercions } = repair({
+      ...valid,
+      nickname: null,
+      extra: 1,
+    });
+    expect(value).toEqual(valid);
+    expect(coercions).toEqual([
+      { path: "/nickname", rule: "drop_null", from: null },
+      { path: "/extra", rule: "drop_unknown_key", from: 1 },
+    ]);
+  });
+
+  it("should leave required nulls and ambiguous values alone", () => {
+    const input = { ...valid, name: null, age: "thirty" };
+    const { value, coercions } = repair(input);
+    expect(value).toEqual(input);
+    expect(coercions).toEqual([]);
+  });
+
+  it("should not modify its input", () => {
+    const input = { ...valid, age: "30" };
+    repair(input);
+    expect(input.age).toBe("30");
+  });
+});
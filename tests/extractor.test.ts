@@ -0,0 +1,2112 @@
+import { describe, it, expect, expectTypeOf, vi } from "vitest";
+import { z } from "zod";
+import {
+  AIMessage,
+  AIMessageChunk,
+  BaseMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { tool } from "@langchain/core/tools";
+import {
+  createExtractor,
+  type ExtractionEvent,
+} from "../src/trustcall/extractor.js";
+import {
+  ExtractionFailedError,
+  ValidationError,
+} from "../src/trustcall/errors.js";
+import { customValidator } from "../src/trustcall/validators.js";
+import { InMemoryDocumentStore } from "../src/trustcall/store.js";
+import {
+  applyJsonPatches,
+  invertJsonPatches,
+} from "../src/trustcall/json-patch.js";
+import {
+  namedSchema,
+  type ExistingType,
+  type SchemaInstance,
+} from "../src/trustcall/types.js";
+
+/**
+ * A chat model that replays scripted responses and records what it was sent.
+ * When streamed, each tool call's arguments arrive in a few chunks.
+ */
+function fakeLlm(responses: AIMessage[]) {
+  const calls: BaseMessage[][] = [];
+  const boundTools: unknown[][] = [];
+  let i = 0;
+  const next = (messages: BaseMessage[]) => {
+    calls.push(messages);
+    const response = responses[i++];
+    if (!response) {
+      throw new Error("No more scripted responses");
+    }
+    return response;
+  };
+  const llm = {
+    bindTools: (tools: unknown[]) => {
+      boundTools.push(tools);
+      return {
+        invoke: async (messages: BaseMessage[]) => next(messages),
+        stream: async (messages: BaseMessage[]) => toChunks(next(messages)),
+      };
+    },
+  };
+  return { llm: llm as unknown as BaseChatModel, calls, boundTools };
+}
+
+async function* toChunks(message: AIMessage) {
+  for (const [index, tc] of (message.tool_calls || []).entries()) {
+    yield new AIMessageChunk({
+      content: "",
+      tool_call_chunks: [{ id: tc.id, name: tc.name, args: "", index }],
+    });
+    const json = JSON.stringify(tc.args);
+    const size = Math.ceil(json.length / 3);
+    for (let start = 0; start < json.length; start += size) {
+      yield new AIMessageChunk({
+        content: "",
+        tool_call_chunks: [{ args: json.slice(start, start + size), index }],
+      });
+    }
+  }
+}
+
+function toolCall(id: string, name: string, args: Record<string, unknown>) {
+  return new AIMessage({ content: "", tool_calls: [{ id, name, args }] });
+}
+
+function patchErrors(jsonDocId: string, patches: unknown[]) {
+  return toolCall(`patch-${jsonDocId}`, "PatchFunctionErrors", {
+    json_doc_id: jsonDocId,
+    planned_edits: "",
+    patches,
+  });
+}
+
+const UserInfo = z
+  .object({
+    name: z.string(),
+    age: z.number(),
+  })
+  .describe("UserInfo");
+
+describe("createExtractor", () => {
+  describe("patch application errors", () => {
+    it("should feed a failed patch back to the model and apply the retry", async () => {
+      const { llm, calls } = fakeLlm([
+        toolCall("call-1", "UserInfo", { name: "Alice", age: "thirty" }),
+        patchErrors("call-1", [
+          { op: "replace", path: "/name", value: "Alicia" },
+          { op: "test", path: "/age", value: 30 },
+        ]),
+        patchErrors("call-1", [{ op: "replace", path: "/age", value: 30 }]),
+      ]);
+
+      const extractor = createExtractor(llm, { tools: [UserInfo] });
+      const result = await extractor.invoke("I'm Alicia, 30");
+
+      expect(result.responses).toEqual([{ name: "Alicia", age: 30 }]);
+
+      // The retry prompt targets the failing operation and shows the
+      // document with the earlier operations applied.
+      const feedback = calls[2]?.at(-1) as ToolMessage;
+      expect(feedback).toBeInstanceOf(ToolMessage);
+      expect(feedback.tool_call_id).toBe("call-1");
+      expect(feedback.content).toContain("Failed to apply patch 1");
+      expect(feedback.content).toContain("Patch 0 was applied");
+      expect(feedback.content).toContain('"name": "Alicia"');
+    });
+
+    it("should feed a failed PatchDoc back to the model", async () => {
+      const { llm, calls } = fakeLlm([
+        toolCall("call-1", "PatchDoc", {
+          json_doc_id: "UserInfo",
+          planned_edits: "",
+          patches: [{ op: "test", path: "/age", value: 99 }],
+        }),
+        patchErrors("call-1", [{ op: "replace", path: "/age", value: 31 }]),
+      ]);
+
+      const extractor = createExtractor(llm, { tools: [UserInfo] });
+      const result = await extractor.invoke({
+        messages: "I just turned 31",
+        existing: { UserInfo: { name: "Alice", age: 30 } },
+      });
+
+      expect(result.responses).toEqual([{ name: "Alice", age: 31 }]);
+      expect(result.responseMetadata[0]?.jsonDocId).toBe("UserInfo");
+
+      const feedback = calls[1]?.at(-1) as ToolMessage;
+      expect(feedback.content).toContain("Failed to apply patch 0");
+    });
+
+    it("should report patches that were never fully applied", async () => {
+      const store = new InMemoryDocumentStore();
+      const namespace = ["memories", "user-1"];
+      await store.put(namespace, {
+        key: "alice",
+        schemaName: "UserInfo",
+        value: { name: "Alice", age: 30 },
+      });
+      const { llm } = fakeLlm([
+        toolCall("call-1", "PatchDoc", {
+          json_doc_id: "alice",
+          planned_edits: "",
+          patches: [
+            { op: "replace", path: "/age", value: 31 },
+            { op: "test", path: "/name", value: "Bob" },
+          ],
+        }),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        retryPolicy: { maxAttempts: 1 },
+        store,
+      });
+      const result = await extractor.invoke({
+        messages: "Bob is 31",
+        namespace,
+      });
+
+      expect(result.responses).toEqual([]);
+      expect(result.appliedPatches).toEqual({});
+      expect(result.errors).toMatchObject([
+        {
+          toolName: "UserInfo",
+          toolCallId: "call-1",
+          issues: [
+            { path: ["name"], message: expect.stringContaining("Patch 1") },
+          ],
+        },
+      ]);
+      expect((await store.get(namespace, "alice"))?.value).toEqual({
+        name: "Alice",
+        age: 30,
+      });
+    });
+
+    it("should report a repair that was never fully applied", async () => {
+      const { llm } = fakeLlm([
+        toolCall("call-1", "UserInfo", { name: "Alice", age: "thirty" }),
+        patchErrors("call-1", [
+          { op: "replace", path: "/age", value: 30 },
+          { op: "test", path: "/name", value: "Bob" },
+        ]),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        retryPolicy: { maxAttempts: 2 },
+      });
+      const result = await extractor.invoke("I'm Alice, 30");
+
+      expect(result.responses).toEqual([]);
+      expect(result.errors).toMatchObject([
+        { toolCallId: "call-1", args: { name: "Alice", age: 30 } },
+      ]);
+    });
+  });
+
+  describe("retry policy", () => {
+    const stillInvalid = [{ op: "replace", path: "/age", value: "30 years" }];
+    const fixed = [{ op: "replace", path: "/age", value: 30 }];
+
+    it("should keep repairing until the call validates", async () => {
+      const { llm, calls } = fakeLlm([
+        toolCall("call-1", "UserInfo", { name: "Alice", age: "thirty" }),
+        patchErrors("call-1", stillInvalid),
+        patchErrors("call-1", fixed),
+      ]);
+
+      const extractor = createExtractor(llm, { tools: [UserInfo] });
+      const result = await extractor.invoke("I'm Alice, 30");
+
+      expect(calls).toHaveLength(3);
+      expect(result.responses).toEqual([{ name: "Alice", age: 30 }]);
+      expect(result.attempts).toBe(3);
+    });
+
+    it("should respect maxAttempts", async () => {
+      const { llm, calls } = fakeLlm([
+        toolCall("call-1", "UserInfo", { name: "Alice", age: "thirty" }),
+        patchErrors("call-1", stillInvalid),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        retryPolicy: { maxAttempts: 2 },
+      });
+      const result = await extractor.invoke("I'm Alice, 30");
+
+      expect(calls).toHaveLength(2);
+      expect(result.responses).toEqual([]);
+    });
+
+    it("should let max_attempts in the config override maxAttempts", async () => {
+      const { llm, calls } = fakeLlm([
+        toolCall("call-1", "UserInfo", { name: "Alice", age: "thirty" }),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        retryPolicy: { maxAttempts: 5 },
+      });
+      await extractor.invoke("I'm Alice, 30", {
+        configurable: { max_attempts: 1 },
+      });
+
+      expect(calls).toHaveLength(1);
+    });
+
+    it("should skip errors that are not retryable", async () => {
+      const { llm, calls } = fakeLlm([
+        toolCall("call-1", "UserInfo", { name: "Alice", age: "thirty" }),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        retryPolicy: {
+          isRetryable: (error) =>
+            !(error instanceof z.ZodError) ||
+            !error.issues.some((issue) => issue.path[0] === "age"),
+        },
+      });
+      const result = await extractor.invoke("I'm Alice");
+
+      expect(calls).toHaveLength(1);
+      expect(result.responses).toEqual([]);
+    });
+
+    it("should pass the failing tool call to isRetryable", async () => {
+      const { llm } = fakeLlm([
+        toolCall("call-1", "UserInfo", { name: "Alice", age: "thirty" }),
+      ]);
+      const seen: string[] = [];
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        retryPolicy: {
+          isRetryable: (_error, call) => {
+            seen.push(`${call.id}:${call.name}`);
+            return false;
+          },
+        },
+      });
+      await extractor.invoke("I'm Alice");
+
+      expect(seen).toEqual(["call-1:UserInfo"]);
+    });
+
+    it("should limit repairs per tool call", async () => {
+      const { llm, calls } = fakeLlm([
+        toolCall("call-1", "UserInfo", { name: "Alice", age: "thirty" }),
+        patchErrors("call-1", stillInvalid),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        retryPolicy: { maxAttempts: 10, maxAttemptsPerToolCall: 2 },
+      });
+      await extractor.invoke("I'm Alice, 30");
+
+      expect(calls).toHaveLength(2);
+    });
+
+    it("should stop repairing when the LLM call budget is spent", async () => {
+      const { llm, calls } = fakeLlm([
+        new AIMessage({
+          content: "",
+          tool_calls: [
+            { id: "call-1", name: "UserInfo", args: { name: "Alice" } },
+            { id: "call-2", name: "UserInfo", args: { name: "Bob" } },
+          ],
+        }),
+        patchErrors("call-2", [{ op: "add", path: "/age", value: 40 }]),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        retryPolicy: { maxLlmCalls: 2 },
+      });
+      const result = await extractor.invoke("Alice and Bob (40)");
+
+      expect(calls).toHaveLength(2);
+      expect(result.responses).toEqual([{ name: "Bob", age: 40 }]);
+    });
+
+    it("should back off between repairs", async () => {
+      const { llm } = fakeLlm([
+        toolCall("call-1", "UserInfo", { name: "Alice", age: "thirty" }),
+        patchErrors("call-1", stillInvalid),
+        patchErrors("call-1", fixed),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        retryPolicy: { backoff: { initialDelayMs: 20, multiplier: 2 } },
+      });
+      const start = Date.now();
+      await extractor.invoke("I'm Alice, 30");
+
+      // 20ms before the first repair, 40ms before the second
+      expect(Date.now() - start).toBeGreaterThanOrEqual(55);
+    });
+  });
+
+  describe("validation failures", () => {
+    it("should report tool calls that are still invalid", async () => {
+      const { llm } = fakeLlm([
+        new AIMessage({
+          content: "",
+          tool_calls: [
+            {
+              id: "call-1",
+              name: "UserInfo",
+              args: { name: "Alice", age: 30 },
+            },
+            { id: "call-2", name: "UserInfo", args: { name: "Bob" } },
+          ],
+        }),
+        patchErrors("call-2", [{ op: "add", path: "/age", value: "forty" }]),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        retryPolicy: { maxAttempts: 2 },
+      });
+      const result = await extractor.invoke("Alice (30) and Bob");
+
+      expect(result.responses).toEqual([{ name: "Alice", age: 30 }]);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toMatchObject({
+        toolName: "UserInfo",
+        toolCallId: "call-2",
+        args: { name: "Bob", age: "forty" },
+        repairAttempts: 1,
+      });
+      expect(result.errors[0]?.issues[0]?.path).toEqual(["age"]);
+    });
+
+    it("should show only the failing paths in the repair prompt", async () => {
+      const Team = z
+        .object({
+          name: z.string().describe("The team name"),
+          members: z.array(z.object({ name: z.string(), age: z.number() })),
+        })
+        .describe("Team");
+      const { llm, calls } = fakeLlm([
+        toolCall("call-1", "Team", {
+          name: "Core",
+          members: [{ name: "Ann", age: "forty" }],
+        }),
+        patchErrors("call-1", [
+          { op: "replace", path: "/members/0/age", value: 40 },
+        ]),
+      ]);
+
+      const extractor = createExtractor(llm, { tools: [Team] });
+      await extractor.invoke("Ann (40) is on Core");
+
+      const feedback = (calls[1]?.at(-1) as ToolMessage).content as string;
+      expect(feedback).toContain(
+        "Path: /members/0/age\n" +
+          "Error: Expected number, received string\n" +
+          'Current value: "forty"\n' +
+          'Expected schema:\n```json\n{\n  "type": "number"\n}\n```'
+      );
+      expect(feedback).not.toContain("The team name");
+    });
+
+    it("should return no errors when everything validates", async () => {
+      const { llm } = fakeLlm([
+        toolCall("call-1", "UserInfo", { name: "Alice", age: 30 }),
+      ]);
+
+      const extractor = createExtractor(llm, { tools: [UserInfo] });
+      const result = await extractor.invoke("I'm Alice, 30");
+
+      expect(result.errors).toEqual([]);
+    });
+
+    it("should throw ExtractionFailedError in strict mode", async () => {
+      const { llm } = fakeLlm([
+        toolCall("call-1", "UserInfo", { name: "Alice", age: "thirty" }),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        strict: true,
+        retryPolicy: { maxAttempts: 1 },
+      });
+
+      const error = await extractor.invoke("I'm Alice").catch((e) => e);
+      expect(error).toBeInstanceOf(ExtractionFailedError);
+      expect(error.message).toContain("UserInfo (call-1): age:");
+      expect((error as ExtractionFailedError).errors[0]?.toolCallId).toBe(
+        "call-1"
+      );
+    });
+  });
+
+  describe("auto-repair", () => {
+    it("should fix simple errors without calling the model", async () => {
+      const events: ExtractionEvent[] = [];
+      const { llm, calls } = fakeLlm([
+        toolCall("call-1", "UserInfo", { name: "Alice", age: "30" }),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        onEvent: (event) => events.push(event),
+      });
+      const result = await extractor.invoke("I'm Alice, 30");
+
+      expect(calls).toHaveLength(1);
+      expect(result.responses).toEqual([{ name: "Alice", age: 30 }]);
+      expect(result.messages[0]?.tool_calls?.[0]?.args).toEqual({
+        name: "Alice",
+        age: 30,
+      });
+      const coercions = [
+        { path: "/age", rule: "string_to_number", from: "30", to: 30 },
+      ];
+      expect(result.autoRepairs).toEqual([
+        { toolCallId: "call-1", toolName: "UserInfo", coercions },
+      ]);
+      expect(events).toContainEqual(
+        expect.objectContaining({ type: "auto_repaired", coercions })
+      );
+    });
+
+    it("should leave calls it can't fully fix to the model", async () => {
+      const { llm, calls } = fakeLlm([
+        toolCall("call-1", "UserInfo", { name: 7, age: "thirty" }),
+        patchErrors("call-1", [
+          { op: "replace", path: "/name", value: "Alice" },
+          { op: "replace", path: "/age", value: 30 },
+        ]),
+      ]);
+
+      const extractor = createExtractor(llm, { tools: [UserInfo] });
+      const result = await extractor.invoke("I'm Alice, 30");
+
+      expect(calls).toHaveLength(2);
+      expect(result.responses).toEqual([{ name: "Alice", age: 30 }]);
+      expect(result.autoRepairs).toEqual([]);
+    });
+
+    it("should be possible to turn off", async () => {
+      const { llm, calls } = fakeLlm([
+        toolCall("call-1", "UserInfo", { name: "Alice", age: "30" }),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        autoRepair: false,
+        retryPolicy: { maxAttempts: 1 },
+      });
+      const result = await extractor.invoke("I'm Alice, 30");
+
+      expect(calls).toHaveLength(1);
+      expect(result.responses).toEqual([]);
+      expect(result.errors).toHaveLength(1);
+    });
+  });
+
+  describe("collection mode", () => {
+    const people = (...names: string[]) =>
+      new AIMessage({
+        content: "",
+        tool_calls: names.map((name, i) => ({
+          id: `call-${i}`,
+          name: "UserInfo",
+          args: { name, age: 30 },
+        })),
+      });
+
+    it("should ask for every instance", async () => {
+      const { llm, calls } = fakeLlm([people("Alice", "Bob")]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        mode: "collection",
+      });
+      const result = await extractor.invoke("Alice and Bob are both 30");
+
+      const system = calls[0]?.[0];
+      expect(system?._getType()).toBe("system");
+      expect(system?.content).toContain("every distinct instance");
+      expect(result.responses).toHaveLength(2);
+    });
+
+    it("should drop duplicates and assign stable ids", async () => {
+      const run = async () => {
+        const { llm } = fakeLlm([people("Alice", "Bob", "Alice")]);
+        const extractor = createExtractor(llm, {
+          tools: [UserInfo],
+          mode: "collection",
+        });
+        return extractor.invoke("Alice, Bob and Alice again");
+      };
+
+      const first = await run();
+      const second = await run();
+
+      expect(first.responses).toEqual([
+        { name: "Alice", age: 30 },
+        { name: "Bob", age: 30 },
+      ]);
+      const ids = first.responseMetadata.map((m) => m.recordId);
+      expect(new Set(ids).size).toBe(2);
+      expect(second.responseMetadata.map((m) => m.recordId)).toEqual(ids);
+    });
+
+    it("should compare instances by collectionKey", async () => {
+      const { llm } = fakeLlm([
+        new AIMessage({
+          content: "",
+          tool_calls: [
+            { id: "a", name: "UserInfo", args: { name: "Alice", age: 30 } },
+            { id: "b", name: "UserInfo", args: { name: "Alice", age: 31 } },
+          ],
+        }),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        mode: "collection",
+        collectionKey: (response) => String(response.value.name),
+      });
+      const result = await extractor.invoke("Alice is 30, or 31");
+
+      expect(result.responses).toEqual([{ name: "Alice", age: 30 }]);
+    });
+
+    it("should not assign ids outside collection mode", async () => {
+      const { llm } = fakeLlm([people("Alice", "Alice")]);
+
+      const extractor = createExtractor(llm, { tools: [UserInfo] });
+      const result = await extractor.invoke("Alice");
+
+      expect(result.responses).toHaveLength(2);
+      expect(result.responseMetadata[0]).not.toHaveProperty("recordId");
+    });
+  });
+
+  describe("deletions", () => {
+    const existing: Array<[string, "UserInfo", { name: string; age: number }]> =
+      [
+        ["alice", "UserInfo", { name: "Alice", age: 30 }],
+        ["bob", "UserInfo", { name: "Bob", age: 40 }],
+      ];
+    const remove = (id: string, args: Record<string, unknown>) =>
+      toolCall(id, "RemoveDoc", args);
+
+    it("should report removals separately from responses", async () => {
+      const { llm } = fakeLlm([remove("call-1", { json_doc_id: "bob" })]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        enableDeletes: true,
+      });
+      const result = await extractor.invoke({
+        messages: "Forget Bob",
+        existing,
+      });
+
+      expect(result.removedDocIds).toEqual(["bob"]);
+      expect(result.responses).toEqual([]);
+      expect(result.errors).toEqual([]);
+    });
+
+    it("should repair removals of unknown documents", async () => {
+      const { llm, calls } = fakeLlm([
+        remove("call-1", { json_doc_id: "robert" }),
+        patchErrors("call-1", [
+          { op: "replace", path: "/json_doc_id", value: "bob" },
+        ]),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        enableDeletes: true,
+      });
+      const result = await extractor.invoke({
+        messages: "Forget Bob",
+        existing,
+      });
+
+      const feedback = calls[1]?.at(-1) as ToolMessage;
+      expect(feedback.content).toContain(
+        "Document ID must be one of: alice, bob"
+      );
+      expect(result.removedDocIds).toEqual(["bob"]);
+    });
+
+    it("should require reasoning when configured", async () => {
+      const events: ExtractionEvent[] = [];
+      const { llm, calls, boundTools } = fakeLlm([
+        remove("call-1", { json_doc_id: "bob" }),
+        patchErrors("call-1", [
+          { op: "add", path: "/reasoning", value: "Bob asked to be forgotten" },
+        ]),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        enableDeletes: true,
+        requireDeleteReasoning: true,
+        onEvent: (event) => events.push(event),
+      });
+      const result = await extractor.invoke({
+        messages: "Bob: forget me",
+        existing,
+      });
+
+      const removeDoc = boundTools[0]?.find(
+        (t) =>
+          (t as { function: { name: string } }).function.name === "RemoveDoc"
+      ) as { function: { parameters: { required: string[] } } };
+      expect(removeDoc.function.parameters.required).toContain("reasoning");
+      expect((calls[1]?.at(-1) as ToolMessage).content).toContain(
+        "Path: /reasoning"
+      );
+      expect(result.removedDocIds).toEqual(["bob"]);
+      expect(events.find((e) => e.type === "doc_removed")).toMatchObject({
+        jsonDocId: "bob",
+        reasoning: "Bob asked to be forgotten",
+      });
+    });
+  });
+
+  describe("edit history", () => {
+    it("should return the patches applied to each document", async () => {
+      const alice = { name: "Alice", age: 30 };
+      const { llm } = fakeLlm([
+        new AIMessage({
+          content: "",
+          tool_calls: [
+            {
+              id: "call-1",
+              name: "PatchDoc",
+              args: {
+                json_doc_id: "alice",
+                planned_edits: "",
+                patches: [
+                  { op: "replace", path: "/age", value: "31" },
+                  { op: "replace", path: "name", value: "Alice Smith" },
+                ],
+              },
+            },
+          ],
+        }),
+      ]);
+
+      const extractor = createExtractor(llm, { tools: [UserInfo] });
+      const result = await extractor.invoke({
+        messages: "Alice is 31",
+        existing: [
+          { recordId: "alice", schemaName: "UserInfo", record: alice },
+        ],
+      });
+
+      // The auto-repair of "31" is part of the history
+      expect(result.appliedPatches).toEqual({
+        alice: [
+          { op: "replace", path: "/age", value: "31" },
+          { op: "replace", path: "name", value: "Alice Smith" },
+          { op: "replace", path: "/age", value: 31 },
+        ],
+      });
+      expect(result.documentDiffs).toEqual({
+        alice: [
+          { op: "replace", path: "/name", value: "Alice Smith" },
+          { op: "replace", path: "/age", value: 31 },
+        ],
+      });
+      const undo = invertJsonPatches(alice, result.appliedPatches.alice ?? [], {
+        mode: "lenient",
+      });
+      expect(
+        applyJsonPatches(result.responses[0] as Record<string, unknown>, undo)
+      ).toEqual(alice);
+    });
+  });
+
+  describe("update strategies", () => {
+    const Profile = z
+      .object({
+        name: z.string(),
+        age: z.number(),
+        tags: z.array(z.string()),
+        address: z.object({ city: z.string() }).partial(),
+      })
+      .describe("Profile");
+    const alice = {
+      name: "Alice",
+      age: 30,
+      tags: ["tea"],
+      address: { city: "Paris" },
+    };
+    const existing = [
+      { recordId: "alice", schemaName: "Profile", record: alice },
+    ];
+
+    it("should apply merge patches", async () => {
+      const { llm, calls, boundTools } = fakeLlm([
+        toolCall("call-1", "PatchDoc", {
+          json_doc_id: "alice",
+          planned_edits: "",
+          patch: { age: 31, tags: ["tea", "cake"], address: { city: null } },
+        }),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [Profile],
+        updateStrategy: "merge-patch",
+      });
+      const result = await extractor.invoke({
+        messages: "Alice turned 31, likes cake and moved out",
+        existing,
+      });
+
+      expect(result.responses).toEqual([
+        { name: "Alice", age: 31, tags: ["tea", "cake"], address: {} },
+      ]);
+      expect(result.appliedPatches).toEqual({
+        alice: [
+          { op: "replace", path: "/age", value: 31 },
+          { op: "add", path: "/tags/1", value: "cake" },
+          { op: "remove", path: "/address/city" },
+        ],
+      });
+      const patchDoc = boundTools[0]?.[0] as {
+        function: { name: string; parameters: { required: string[] } };
+      };
+      expect(patchDoc.function.name).toBe("PatchDoc");
+      expect(patchDoc.function.parameters.required).toContain("patch");
+      expect(String(calls[0]?.[0]?.content)).toContain("JSON Merge Patches");
+    });
+
+    it("should bind the update tools without warnings", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      for (const updateStrategy of ["merge-patch", "replace"] as const) {
+        const { llm } = fakeLlm([
+          new AIMessage({ content: "", tool_calls: [] }),
+        ]);
+        const extractor = createExtractor(llm, {
+          tools: [Profile],
+          updateStrategy,
+        });
+        await extractor.invoke({ messages: "Hi", existing });
+      }
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it("should ask again for a merge patch that isn't an object", async () => {
+      const { llm, calls } = fakeLlm([
+        toolCall("call-1", "PatchDoc", {
+          json_doc_id: "alice",
+          planned_edits: "",
+          patch: "age: 31",
+        }),
+        patchErrors("call-1", [{ op: "replace", path: "/age", value: 31 }]),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [Profile],
+        updateStrategy: "merge-patch",
+      });
+      const result = await extractor.invoke({
+        messages: "Alice turned 31",
+        existing,
+      });
+
+      const feedback = calls[1]?.at(-1) as ToolMessage;
+      expect(feedback.content).toContain(
+        `PatchDoc's "patch" must be a JSON object`
+      );
+      expect(feedback.content).toContain('"name": "Alice"');
+      expect(result.responses).toEqual([{ ...alice, age: 31 }]);
+    });
+
+    it("should report a document that isn't an object", async () => {
+      const { llm } = fakeLlm([
+        toolCall("call-1", "PatchDoc", {
+          json_doc_id: "alice",
+          planned_edits: "",
+        }),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [Profile],
+        updateStrategy: "replace",
+        retryPolicy: { maxAttempts: 1 },
+      });
+      const result = await extractor.invoke({
+        messages: "Alice turned 31",
+        existing,
+      });
+
+      expect(result.responses).toEqual([]);
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          toolCallId: "call-1",
+          args: alice,
+          issues: [
+            expect.objectContaining({
+              message: `PatchDoc's "document" must be a JSON object`,
+            }),
+          ],
+        }),
+      ]);
+    });
+
+    it("should validate rewritten documents against their schema", async () => {
+      const { llm, calls, boundTools } = fakeLlm([
+        toolCall("call-1", "PatchDoc", {
+          json_doc_id: "alice",
+          planned_edits: "",
+          document: { ...alice, age: "thirty-one" },
+        }),
+        patchErrors("call-1", [{ op: "replace", path: "/age", value: 31 }]),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [Profile],
+        updateStrategy: "replace",
+      });
+      const result = await extractor.invoke({
+        messages: "Alice turned 31",
+        existing,
+      });
+
+      expect(result.responses).toEqual([{ ...alice, age: 31 }]);
+      expect(result.responseMetadata[0]?.jsonDocId).toBe("alice");
+      const patchDoc = boundTools[0]?.[0] as {
+        function: { parameters: { required: string[] } };
+      };
+      expect(patchDoc.function.parameters.required).toContain("document");
+      expect((calls[1]?.at(-1) as ToolMessage).content).toContain("age");
+    });
+  });
+
+  describe("array keys", () => {
+    it("should apply patches that address array items by key", async () => {
+      const Contacts = z
+        .object({
+          friends: z.array(z.object({ name: z.string(), age: z.number() })),
+        })
+        .describe("Contacts");
+      const { llm, calls } = fakeLlm([
+        toolCall("call-1", "PatchDoc", {
+          json_doc_id: "contacts",
+          planned_edits: "",
+          patches: [
+            { op: "remove", path: "/friends/[name=Alice]" },
+            { op: "replace", path: "/friends/[name=Carol]/age", value: 42 },
+          ],
+        }),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [Contacts],
+        arrayKeys: { Contacts: { "/friends": "name" } },
+      });
+      const result = await extractor.invoke({
+        messages: "Forget Alice; Carol is 42 now",
+        existing: [
+          {
+            recordId: "contacts",
+            schemaName: "Contacts",
+            record: {
+              friends: [
+                { name: "Alice", age: 30 },
+                { name: "Bob", age: 25 },
+                { name: "Carol", age: 41 },
+              ],
+            },
+          },
+        ],
+      });
+
+      expect(result.responses).toEqual([
+        {
+          friends: [
+            { name: "Bob", age: 25 },
+            { name: "Carol", age: 42 },
+          ],
+        },
+      ]);
+      expect(String(calls[0]?.[0]?.content)).toContain(
+        "/friends/[name=<name>]"
+      );
+    });
+
+    it("should only offer keyed paths when array keys are declared", async () => {
+      const pathDescription = async (options: {
+        arrayKeys?: { UserInfo: Record<string, string> };
+      }) => {
+        const { llm, boundTools } = fakeLlm([
+          toolCall("call-1", "PatchDoc", {
+            json_doc_id: "alice",
+            planned_edits: "",
+            patches: [{ op: "replace", path: "/age", value: "thirty-one" }],
+          }),
+          patchErrors("call-1", [{ op: "replace", path: "/age", value: 31 }]),
+        ]);
+        const extractor = createExtractor(llm, {
+          tools: [UserInfo],
+          ...options,
+        });
+        await extractor.invoke({
+          messages: "Alice turned 31",
+          existing: [
+            {
+              recordId: "alice",
+              schemaName: "UserInfo",
+              record: { name: "Alice", age: 30 },
+            },
+          ],
+        });
+        return boundTools.map((tools) => {
+          const patchTool = tools[0] as {
+            function: {
+              parameters: {
+                properties: {
+                  patches: {
+                    items: { properties: { path: { description: string } } };
+                  };
+                };
+              };
+            };
+          };
+          return patchTool.function.parameters.properties.patches.items
+            .properties.path.description;
+        });
+      };
+
+      const keyed = await pathDescription({
+        arrayKeys: { UserInfo: { "/tags": "name" } },
+      });
+      expect(keyed).toHaveLength(2);
+      for (const description of keyed) {
+        expect(description).toContain("[key=value]");
+      }
+      for (const description of await pathDescription({})) {
+        expect(description).not.toContain("[key=value]");
+      }
+    });
+  });
+
+  describe("field policies", () => {
+    const existing = [
+      {
+        recordId: "alice",
+        schemaName: "UserInfo",
+        record: { name: "Alice", age: 30 },
+      },
+    ];
+
+    it("should reject a PatchDoc that changes a protected field", async () => {
+      const events: ExtractionEvent[] = [];
+      const { llm, calls } = fakeLlm([
+        toolCall("call-1", "PatchDoc", {
+          json_doc_id: "alice",
+          planned_edits: "",
+          patches: [
+            { op: "replace", path: "/name", value: "Alicia" },
+            { op: "replace", path: "/age", value: 31 },
+          ],
+        }),
+        patchErrors("call-1", [{ op: "replace", path: "/age", value: 31 }]),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        fieldPolicies: { UserInfo: { "/name": "read-only" } },
+        onEvent: (event) => events.push(event),
+      });
+      const result = await extractor.invoke({
+        messages: "Alicia is 31",
+        existing,
+      });
+
+      expect(result.responses).toEqual([{ name: "Alice", age: 31 }]);
+      expect(result.appliedPatches).toEqual({
+        alice: [{ op: "replace", path: "/age", value: 31 }],
+      });
+      const feedback = calls[1]?.at(-1) as ToolMessage;
+      expect(feedback.content).toContain("change protected fields");
+      expect(feedback.content).toContain("Path: /name");
+      expect(feedback.content).toContain('"name": "Alice"');
+      expect(events).toContainEqual(
+        expect.objectContaining({
+          type: "field_policy_violated",
+          toolCallId: "call-1",
+          jsonDocId: "alice",
+          violations: [expect.objectContaining({ path: "/name" })],
+        })
+      );
+    });
+
+    it("should reject a repair that changes a protected field", async () => {
+      const { llm, calls } = fakeLlm([
+        toolCall("call-1", "PatchDoc", {
+          json_doc_id: "alice",
+          planned_edits: "",
+          patches: [{ op: "test", path: "/age", value: 99 }],
+        }),
+        patchErrors("call-1", [{ op: "replace", path: "/name", value: "Al" }]),
+        patchErrors("call-1", [{ op: "replace", path: "/age", value: 31 }]),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        fieldPolicies: { UserInfo: { "/name": "immutable-once-set" } },
+      });
+      const result = await extractor.invoke({
+        messages: "Alice is 31",
+        existing,
+      });
+
+      expect(result.responses).toEqual([{ name: "Alice", age: 31 }]);
+      const feedback = calls[2]?.at(-1) as ToolMessage;
+      expect(feedback.content).toContain("Path: /name");
+    });
+
+    it("should report a rejected PatchDoc that isn't repaired", async () => {
+      const store = new InMemoryDocumentStore();
+      const namespace = ["users"];
+      await store.put(namespace, {
+        key: "alice",
+        schemaName: "UserInfo",
+        value: { name: "Alice", age: 30 },
+      });
+      const { llm } = fakeLlm([
+        toolCall("call-1", "PatchDoc", {
+          json_doc_id: "alice",
+          planned_edits: "",
+          patches: [{ op: "replace", path: "/name", value: "Alicia" }],
+        }),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        fieldPolicies: { UserInfo: { "/name": "read-only" } },
+        retryPolicy: { maxAttempts: 1 },
+        store,
+      });
+      const result = await extractor.invoke({
+        messages: "Alice is now Alicia",
+        namespace,
+      });
+
+      expect(result.responses).toEqual([]);
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          toolCallId: "call-1",
+          issues: [expect.objectContaining({ path: ["name"] })],
+        }),
+      ]);
+      expect((await store.get(namespace, "alice"))?.version).toBe(1);
+    });
+
+    it("should report a rejected repair that isn't repaired", async () => {
+      const { llm } = fakeLlm([
+        toolCall("call-1", "PatchDoc", {
+          json_doc_id: "alice",
+          planned_edits: "",
+          patches: [{ op: "test", path: "/age", value: 99 }],
+        }),
+        patchErrors("call-1", [{ op: "replace", path: "/name", value: "Al" }]),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        fieldPolicies: { UserInfo: { "/name": "read-only" } },
+        retryPolicy: { maxAttempts: 2 },
+      });
+      const result = await extractor.invoke({
+        messages: "Al is 31",
+        existing,
+      });
+
+      expect(result.responses).toEqual([]);
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          toolCallId: "call-1",
+          issues: [expect.objectContaining({ path: ["name"] })],
+        }),
+      ]);
+    });
+
+    it("should not auto-repair protected fields", async () => {
+      const events: ExtractionEvent[] = [];
+      // Stored before the schema required a number
+      const stored: SchemaInstance[] = [
+        {
+          recordId: "alice",
+          schemaName: "UserInfo",
+          record: { name: "Alice", age: "30" },
+        },
+      ];
+      const { llm } = fakeLlm([
+        toolCall("call-1", "PatchDoc", {
+          json_doc_id: "alice",
+          planned_edits: "",
+          patches: [{ op: "replace", path: "/name", value: "Alicia" }],
+        }),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        fieldPolicies: { UserInfo: { "/age": "read-only" } },
+        retryPolicy: { maxAttempts: 1 },
+        onEvent: (event) => events.push(event),
+      });
+      const result = await extractor.invoke({
+        messages: "Alice goes by Alicia now",
+        existing: stored,
+      });
+
+      expect(result.autoRepairs).toEqual([]);
+      expect(result.responses).toEqual([]);
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          toolCallId: "call-1",
+          args: { name: "Alicia", age: "30" },
+        }),
+      ]);
+      expect(events).toContainEqual(
+        expect.objectContaining({
+          type: "field_policy_violated",
+          toolCallId: "call-1",
+          jsonDocId: "alice",
+          violations: [expect.objectContaining({ path: "/age" })],
+        })
+      );
+    });
+  });
+
+  describe("update prompt", () => {
+    it("should show each schema once", async () => {
+      const events: ExtractionEvent[] = [];
+      const { llm, calls } = fakeLlm([
+        new AIMessage({ content: "", tool_calls: [] }),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        onEvent: (event) => events.push(event),
+      });
+      await extractor.invoke({
+        messages: "Hello",
+        existing: [
+          {
+            recordId: "a",
+            schemaName: "UserInfo",
+            record: { name: "Alice", age: 30 },
+          },
+          {
+            recordId: "b",
+            schemaName: "UserInfo",
+            record: { name: "Bob", age: 40 },
+          },
+        ],
+      });
+
+      const prompt = String(calls[0]?.[0]?.content);
+      expect(prompt.match(/<json_schema/g)).toHaveLength(1);
+      expect(prompt).toContain('<json_schema schema_type="UserInfo">');
+      expect(prompt).toContain('<instance id="a" schema_type="UserInfo">');
+      expect(prompt).toContain('<instance id="b" schema_type="UserInfo">');
+      const built = events.find((e) => e.type === "existing_prompt_built");
+      expect(built).toMatchObject({ documents: 2, hiddenDocuments: 0 });
+      expect(
+        (built as { estimatedTokens: number }).estimatedTokens
+      ).toBeGreaterThan(0);
+    });
+  });
+
+  describe("relevance", () => {
+    const existing = [
+      {
+        recordId: "a",
+        schemaName: "UserInfo",
+        record: { name: "Alice", age: 30 },
+      },
+      {
+        recordId: "b",
+        schemaName: "UserInfo",
+        record: { name: "Bob", age: 40 },
+      },
+      {
+        recordId: "c",
+        schemaName: "UserInfo",
+        record: { name: "Carol", age: 50 },
+      },
+    ];
+
+    it("should only show the most relevant documents", async () => {
+      const { llm, calls } = fakeLlm([
+        new AIMessage({
+          content: "",
+          tool_calls: [
+            {
+              id: "call-1",
+              name: "PatchDoc",
+              args: {
+                json_doc_id: "b",
+                planned_edits: "",
+                patches: [{ op: "replace", path: "/age", value: 41 }],
+              },
+            },
+            { id: "call-2", name: "RemoveDoc", args: { json_doc_id: "c" } },
+          ],
+        }),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        enableDeletes: true,
+        relevance: { topK: 1 },
+      });
+      const result = await extractor.invoke({
+        messages: "Bob is 41 now",
+        existing,
+      });
+
+      const prompt = String(calls[0]?.[0]?.content);
+      expect(prompt).toContain('id="b"');
+      expect(prompt).not.toContain('id="a"');
+      expect(prompt).toContain("2 more are not");
+      expect(result.responses).toEqual([{ name: "Bob", age: 41 }]);
+      expect(result.removedDocIds).toEqual(["c"]);
+    });
+
+    it("should use a custom scorer", async () => {
+      const { llm, calls } = fakeLlm([
+        new AIMessage({ content: "", tool_calls: [] }),
+      ]);
+      const scorer = vi.fn((_query: string, documents: unknown[]) =>
+        documents.map((_, i) => i)
+      );
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        relevance: { topK: 2, scorer },
+      });
+      await extractor.invoke({ messages: "Hello", existing });
+
+      expect(scorer).toHaveBeenCalledWith("Hello", existing);
+      const prompt = String(calls[0]?.[0]?.content);
+      expect(prompt).toContain('id="b"');
+      expect(prompt).toContain('id="c"');
+      expect(prompt).not.toContain('id="a"');
+    });
+  });
+
+  describe("store", () => {
+    const namespace = ["memories", "user-1"];
+
+    it("should save new documents", async () => {
+      const store = new InMemoryDocumentStore();
+      const { llm } = fakeLlm([
+        toolCall("call-1", "UserInfo", { name: "Alice", age: 30 }),
+      ]);
+
+      const extractor = createExtractor(llm, { tools: [UserInfo], store });
+      await extractor.invoke({ messages: "I'm Alice, 30", namespace });
+
+      expect(await store.list(namespace)).toEqual([
+        {
+          key: "call-1",
+          schemaName: "UserInfo",
+          value: { name: "Alice", age: 30 },
+          version: 1,
+        },
+      ]);
+    });
+
+    it("should update documents loaded from the store", async () => {
+      const store = new InMemoryDocumentStore();
+      await store.write(namespace, [
+        {
+          op: "put",
+          key: "alice",
+          schemaName: "UserInfo",
+          value: { name: "Alice", age: 30 },
+        },
+        {
+          op: "put",
+          key: "bob",
+          schemaName: "UserInfo",
+          value: { name: "Bob", age: 40 },
+        },
+      ]);
+      const { llm, calls } = fakeLlm([
+        new AIMessage({
+          content: "",
+          tool_calls: [
+            {
+              id: "call-1",
+              name: "PatchDoc",
+              args: {
+                json_doc_id: "alice",
+                planned_edits: "",
+                patches: [{ op: "replace", path: "/age", value: 31 }],
+              },
+            },
+            { id: "call-2", name: "RemoveDoc", args: { json_doc_id: "bob" } },
+          ],
+        }),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        enableDeletes: true,
+        store,
+      });
+      await extractor.invoke({
+        messages: "Alice turned 31 and Bob left",
+        namespace,
+      });
+
+      expect(calls[0]?.[0]?.content).toContain('"name": "Bob"');
+      expect(await store.list(namespace)).toEqual([
+        {
+          key: "alice",
+          schemaName: "UserInfo",
+          value: { name: "Alice", age: 31 },
+          version: 2,
+        },
+      ]);
+    });
+
+    it("should load the documents matching the conversation", async () => {
+      const store = new InMemoryDocumentStore();
+      await store.write(namespace, [
+        {
+          op: "put",
+          key: "alice",
+          schemaName: "UserInfo",
+          value: { name: "Alice", age: 30 },
+        },
+        {
+          op: "put",
+          key: "bob",
+          schemaName: "UserInfo",
+          value: { name: "Bob", age: 40 },
+        },
+      ]);
+      const search = vi.spyOn(store, "search");
+      const patchAge = (id: string, key: string) =>
+        toolCall(id, "PatchDoc", {
+          json_doc_id: key,
+          planned_edits: "",
+          patches: [{ op: "replace", path: "/age", value: 41 }],
+        });
+      const { llm, calls } = fakeLlm([
+        patchAge("call-1", "bob"),
+        patchAge("call-2", "alice"),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        store,
+        relevance: { topK: 1 },
+      });
+      await extractor.invoke({ messages: "Bob moved", namespace });
+      expect(search).toHaveBeenCalledWith(namespace, "Bob moved", {
+        limit: 1,
+      });
+      expect(calls[0]?.[0]?.content).toContain('"name": "Bob"');
+      expect(calls[0]?.[0]?.content).not.toContain('"name": "Alice"');
+
+      // Without a match, every document is loaded for the scorer to rank
+      await extractor.invoke({ messages: "Nobody moved", namespace });
+      expect(calls[1]?.[0]?.content).toContain('"name": "Alice"');
+    });
+
+    it("should report documents changed by another extraction", async () => {
+      const store = new InMemoryDocumentStore();
+      const alice = {
+        key: "alice",
+        schemaName: "UserInfo",
+        value: { name: "Alice", age: 30 },
+      };
+      await store.put(namespace, alice);
+      // Another job updates Alice after this extraction has read her
+      const list = store.list.bind(store);
+      store.list = async (ns) => {
+        const documents = await list(ns);
+        await store.put(ns, { ...alice, value: { name: "Alice", age: 32 } });
+        return documents;
+      };
+      const { llm } = fakeLlm([
+        new AIMessage({
+          content: "",
+          tool_calls: [
+            {
+              id: "call-1",
+              name: "PatchDoc",
+              args: {
+                json_doc_id: "alice",
+                planned_edits: "",
+                patches: [{ op: "replace", path: "/age", value: 31 }],
+              },
+            },
+            { id: "call-2", name: "UserInfo", args: { name: "Bob", age: 40 } },
+          ],
+        }),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        enableInserts: true,
+        store,
+      });
+      const result = await extractor.invoke({
+        messages: "Alice is 31, Bob is 40",
+        namespace,
+      });
+
+      expect(result.responseMetadata[0]).toMatchObject({
+        jsonDocId: "alice",
+        baseVersion: 1,
+      });
+      expect(result.conflicts).toEqual([
+        { key: "alice", expectedVersion: 1, actualVersion: 2 },
+      ]);
+      expect((await list(namespace)).map((d) => d.value)).toEqual([
+        { name: "Alice", age: 32 },
+        { name: "Bob", age: 40 },
+      ]);
+    });
+
+    it("should not save anything when strict mode fails", async () => {
+      const store = new InMemoryDocumentStore();
+      const { llm } = fakeLlm([
+        new AIMessage({
+          content: "",
+          tool_calls: [
+            { id: "a", name: "UserInfo", args: { name: "Alice", age: 30 } },
+            { id: "b", name: "UserInfo", args: { name: "Bob", age: "?" } },
+          ],
+        }),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        store,
+        strict: true,
+        retryPolicy: { maxAttempts: 1 },
+      });
+      await expect(
+        extractor.invoke({ messages: "Alice and Bob", namespace })
+      ).rejects.toThrow(ExtractionFailedError);
+
+      expect(await store.list(namespace)).toEqual([]);
+    });
+  });
+
+  describe("JSON Schema tools", () => {
+    const Order = {
+      name: "Order",
+      description: "A purchase order",
+      parameters: {
+        type: "object" as const,
+        properties: {
+          sku: { type: "string" as const, pattern: "^[A-Z]{3}-\\d+$" },
+          quantity: { type: "integer" as const, minimum: 1 },
+        },
+        required: ["sku", "quantity"],
+      },
+    };
+
+    it("should bind the tool with its parameters", async () => {
+      const { llm, boundTools } = fakeLlm([
+        toolCall("call-1", "Order", { sku: "ABC-1", quantity: 2 }),
+      ]);
+
+      const extractor = createExtractor(llm, { tools: [Order] });
+      await extractor.invoke("Two of ABC-1");
+
+      expect(boundTools[0]).toEqual([
+        {
+          type: "function",
+          function: {
+            name: "Order",
+            description: "A purchase order",
+            parameters: Order.parameters,
+          },
+        },
+      ]);
+    });
+
+    it("should validate and repair calls against the parameters", async () => {
+      const { llm, calls } = fakeLlm([
+        toolCall("call-1", "Order", { sku: "abc", quantity: 1.5 }),
+        patchErrors("call-1", [
+          { op: "replace", path: "/sku", value: "ABC-1" },
+          { op: "replace", path: "/quantity", value: 2 },
+        ]),
+      ]);
+
+      const extractor = createExtractor(llm, { tools: [Order] });
+      const result = await extractor.invoke("Two of ABC-1");
+
+      expect(result.responses).toEqual([{ sku: "ABC-1", quantity: 2 }]);
+      const feedback = calls[1]?.at(-1) as ToolMessage;
+      expect(feedback.content).toContain("sku");
+      expect(feedback.content).toContain("quantity");
+      // The repair prompt shows the schema the tool was defined with
+      expect(feedback.content).toContain('"pattern": "^[A-Z]{3}-\\\\d+$"');
+    });
+
+    it("should use the JSON schema of structured tools", async () => {
+      const { llm, boundTools } = fakeLlm([
+        toolCall("call-1", "Order", { sku: "ABC-1", quantity: 0 }),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [
+          tool(async () => "", {
+            name: "Order",
+            description: Order.description,
+            schema: Order.parameters,
+          }),
+        ],
+        retryPolicy: { maxAttempts: 1 },
+      });
+      const result = await extractor.invoke("None of ABC-1");
+
+      expect(
+        (boundTools[0]?.[0] as { function: { parameters: unknown } }).function
+          .parameters
+      ).toEqual(Order.parameters);
+      expect(result.errors[0]?.issues[0]?.path).toEqual(["quantity"]);
+    });
+  });
+
+  describe("validator tools", () => {
+    const Temperature = {
+      name: "Temperature",
+      description: "A temperature reading",
+      validator: customValidator<{ celsius: number }>({
+        jsonSchema: {
+          type: "object",
+          properties: { celsius: { type: "number" } },
+          required: ["celsius"],
+        },
+        parse: (value) => {
+          const celsius = (value as { celsius?: unknown }).celsius;
+          return typeof celsius === "number" && celsius >= -273.15
+            ? { success: true, value: { celsius } }
+            : {
+                success: false,
+                issues: [{ path: ["celsius"], message: "Below absolute zero" }],
+              };
+        },
+      }),
+    };
+
+    it("should bind, validate and repair with the validator", async () => {
+      const { llm, calls, boundTools } = fakeLlm([
+        toolCall("call-1", "Temperature", { celsius: -300 }),
+        patchErrors("call-1", [
+          { op: "replace", path: "/celsius", value: -30 },
+        ]),
+      ]);
+
+      const extractor = createExtractor(llm, { tools: [Temperature] });
+      const result = await extractor.invoke("It's -30 out");
+
+      expect(boundTools[0]).toEqual([
+        {
+          type: "function",
+          function: {
+            name: "Temperature",
+            description: "A temperature reading",
+            parameters: Temperature.validator.toJsonSchema(),
+          },
+        },
+      ]);
+      const feedback = calls[1]?.at(-1) as ToolMessage;
+      expect(feedback.content).toContain(
+        "Path: /celsius\nError: Below absolute zero\nCurrent value: -300"
+      );
+      expect(feedback.artifact).toBeInstanceOf(ValidationError);
+
+      expect(result.responses).toEqual([{ celsius: -30 }]);
+      expectTypeOf(result.responses).toEqualTypeOf<{ celsius: number }[]>();
+    });
+
+    it("should report issues from the validator", async () => {
+      const { llm } = fakeLlm([
+        toolCall("call-1", "Temperature", { celsius: -300 }),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [Temperature],
+        retryPolicy: { maxAttempts: 1 },
+      });
+      const result = await extractor.invoke("It's -300 out");
+
+      expect(result.errors[0]?.issues).toEqual([
+        { code: "custom", path: ["celsius"], message: "Below absolute zero" },
+      ]);
+    });
+  });
+
+  describe("semantic validators", () => {
+    const Trip = z
+      .object({ start: z.string(), end: z.string() })
+      .describe("Trip");
+
+    const endsAfterStart = async (trip: { start: string; end: string }) =>
+      trip.end < trip.start
+        ? [{ path: "/end", message: "Must not be before the start date" }]
+        : [];
+
+    it("should send issues to the model for repair", async () => {
+      const { llm, calls } = fakeLlm([
+        toolCall("call-1", "Trip", { start: "2024-05-02", end: "2024-05-01" }),
+        patchErrors("call-1", [
+          { op: "replace", path: "/end", value: "2024-05-03" },
+        ]),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [Trip],
+        validators: { Trip: endsAfterStart },
+      });
+      const result = await extractor.invoke("May 2nd to 3rd");
+
+      const feedback = calls[1]?.at(-1) as ToolMessage;
+      expect(feedback.content).toContain(
+        "Path: /end\nError: Must not be before the start date"
+      );
+      expect(feedback.artifact).toBeInstanceOf(ValidationError);
+      expect(result.responses).toEqual([
+        { start: "2024-05-02", end: "2024-05-03" },
+      ]);
+    });
+
+    it("should see the other tool calls in the response", async () => {
+      const seen: string[][] = [];
+      const { llm } = fakeLlm([
+        new AIMessage({
+          content: "",
+          tool_calls: [
+            { id: "call-1", name: "Trip", args: { start: "a", end: "b" } },
+            { id: "call-2", name: "Trip", args: { start: "b", end: "c" } },
+          ],
+        }),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [Trip],
+        validators: {
+          Trip: (_trip, context) => {
+            seen.push(context.toolCalls.map((tc) => tc.id ?? ""));
+            expectTypeOf(_trip).toEqualTypeOf<{ start: string; end: string }>();
+          },
+        },
+      });
+      await extractor.invoke("Two trips");
+
+      expect(seen[0]).toEqual(["call-1", "call-2"]);
+    });
+
+    it("should check each valid tool call once", async () => {
+      const lookup = vi.fn(endsAfterStart);
+      const { llm } = fakeLlm([
+        new AIMessage({
+          content: "",
+          tool_calls: [
+            { id: "ok", name: "Trip", args: { start: "a", end: "b" } },
+            { id: "bad", name: "Trip", args: { start: "c", end: 1 } },
+          ],
+        }),
+        patchErrors("bad", [{ op: "replace", path: "/end", value: 2 }]),
+        patchErrors("bad", [{ op: "replace", path: "/end", value: "d" }]),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [Trip],
+        validators: { Trip: lookup },
+        autoRepair: false,
+      });
+      const result = await extractor.invoke("Two trips");
+
+      expect(result.responses).toHaveLength(2);
+      expect(lookup.mock.calls.map(([trip]) => trip)).toEqual([
+        { start: "a", end: "b" },
+        { start: "c", end: "d" },
+      ]);
+    });
+
+    it("should report issues that remain after the last attempt", async () => {
+      const { llm } = fakeLlm([
+        toolCall("call-1", "Trip", { start: "2024-05-02", end: "2024-05-01" }),
+      ]);
+
+      const extractor = createExtractor(llm, {
+        tools: [Trip],
+        validators: { Trip: [endsAfterStart] },
+        retryPolicy: { maxAttempts: 1 },
+      });
+      const result = await extractor.invoke("May 2nd to 1st");
+
+      expect(result.responses).toEqual([]);
+      expect(result.errors[0]?.issues).toEqual([
+        {
+          code: "custom",
+          path: ["end"],
+          message: "Must not be before the start date",
+        },
+      ]);
+    });
+  });
+
+  describe("onEvent", () => {
+    function recorder() {
+      const events: ExtractionEvent[] = [];
+      return {
+        events,
+        onEvent: (event: ExtractionEvent) => events.push(event),
+      };
+    }
+
+    it("should report validation and repairs with attempt counters", async () => {
+      const { llm } = fakeLlm([
+        toolCall("call-1", "UserInfo", { name: "Alice", age: "thirty" }),
+        patchErrors("call-1", [{ op: "replace", path: "/age", value: 30 }]),
+      ]);
+      const { events, onEvent } = recorder();
+
+      const extractor = createExtractor(llm, { tools: [UserInfo], onEvent });
+      await extractor.invoke("I'm Alice, 30");
+
+      expect(events.map((e) => e.type)).toEqual([
+        "extraction_started",
+        "validation_failed",
+        "patch_proposed",
+        "patch_applied",
+        "tool_call_validated",
+        "extraction_finished",
+      ]);
+      expect(events[1]).toMatchObject({
+        toolCallId: "call-1",
+        toolName: "UserInfo",
+        attempt: 1,
+      });
+      expect(events[2]).toMatchObject({
+        attempt: 2,
+        patches: [{ op: "replace", path: "/age", value: 30 }],
+      });
+      expect(events[3]).toMatchObject({ args: { name: "Alice", age: 30 } });
+      expect(events[4]).toMatchObject({ toolCallId: "call-1", attempt: 2 });
+      expect(events[5]).toMatchObject({
+        attempts: 2,
+        llmCalls: 2,
+        responses: 1,
+        errors: 0,
+      });
+      for (const event of events) {
+        expect(event.elapsedMs).toBeGreaterThanOrEqual(0);
+      }
+    });
+
+    it("should report each valid tool call once", async () => {
+      const { llm } = fakeLlm([
+        new AIMessage({
+          content: "",
+          tool_calls: [
+            { id: "ok", name: "UserInfo", args: { name: "Bob", age: 40 } },
+            { id: "bad", name: "UserInfo", args: { name: "Al", age: "x" } },
+            { id: "rm", name: "RemoveDoc", args: { json_doc_id: "carol" } },
+          ],
+        }),
+        patchErrors("bad", [{ op: "replace", path: "/age", value: "y" }]),
+        patchErrors("bad", [{ op: "replace", path: "/age", value: 30 }]),
+      ]);
+      const { events, onEvent } = recorder();
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        enableInserts: true,
+        enableDeletes: true,
+        onEvent,
+      });
+      const result = await extractor.invoke({
+        messages: "Forget Carol",
+        existing: [
+          {
+            recordId: "carol",
+            schemaName: "UserInfo",
+            record: { name: "Carol", age: 50 },
+          },
+        ],
+      });
+
+      const validated = events.flatMap((e) =>
+        e.type === "tool_call_validated" ? [`${e.toolCallId}@${e.attempt}`] : []
+      );
+      expect(validated).toEqual(["ok@1", "rm@1", "bad@3"]);
+      expect(events.filter((e) => e.type === "doc_removed")).toHaveLength(1);
+      expect(result.responses).toHaveLength(2);
+      expect(result.removedDocIds).toEqual(["carol"]);
+    });
+
+    it("should report renamed tool calls", async () => {
+      const { llm } = fakeLlm([
+        toolCall("call-1", "UserInf", { name: "Alice", age: 30 }),
+        toolCall("fix-1", "PatchFunctionName", {
+          json_doc_id: "call-1",
+          reasoning: "",
+          fixed_name: "UserInfo",
+        }),
+      ]);
+      const { events, onEvent } = recorder();
+
+      const extractor = createExtractor(llm, { tools: [UserInfo], onEvent });
+      await extractor.invoke("I'm Alice, 30");
+
+      expect(events.find((e) => e.type === "tool_renamed")).toMatchObject({
+        toolCallId: "call-1",
+        from: "UserInf",
+        to: "UserInfo",
+        attempt: 2,
+      });
+    });
+
+    it("should report patched and removed documents", async () => {
+      const { llm } = fakeLlm([
+        new AIMessage({
+          content: "",
+          tool_calls: [
+            {
+              id: "call-1",
+              name: "PatchDoc",
+              args: {
+                json_doc_id: "alice",
+                planned_edits: "",
+                patches: [{ op: "replace", path: "/age", value: 31 }],
+              },
+            },
+            { id: "call-2", name: "RemoveDoc", args: { json_doc_id: "bob" } },
+          ],
+        }),
+      ]);
+      const { events, onEvent } = recorder();
+
+      const extractor = createExtractor(llm, {
+        tools: [UserInfo],
+        enableDeletes: true,
+        onEvent,
+      });
+      await extractor.invoke({
+        messages: "Alice turned 31 and Bob left",
+        existing: [
+          ["alice", "UserInfo", { name: "Alice", age: 30 }],
+          ["bob", "UserInfo", { name: "Bob", age: 40 }],
+        ],
+      });
+
+      expect(events[0]).toMatchObject({ mode: "update" });
+      expect(events.find((e) => e.type === "patch_applied")).toMatchObject({
+        toolCallId: "call-1",
+        toolName: "UserInfo",
+        jsonDocId: "alice",
+        args: { name: "Alice", age: 31 },
+        diff: [{ op: "replace", path: "/age", value: 31 }],
+      });
+      expect(events.find((e) => e.type === "doc_removed")).toMatchObject({
+        toolCallId: "call-2",
+        jsonDocId: "bob",
+      });
+    });
+  });
+
+  describe("typed results", () => {
+    const Pet = namedSchema("Pet", z.object({ species: z.string() }));
+    const User = namedSchema(
+      "User",
+      z.object({ name: z.string(), age: z.number() })
+    );
+
+    it("should tag responses with their schema name", async () => {
+      const { llm } = fakeLlm([
+        new AIMessage({
+          content: "",
+          tool_calls: [
+            { id: "call-1", name: "User", args: { name: "Alice", age: 30 } },
+            { id: "call-2", name: "Pet", args: { species: "cat" } },
+          ],
+        }),
+      ]);
+
+      const extractor = createExtractor(llm, { tools: [User, Pet] });
+      const result = await extractor.invoke("Alice (30) has a cat");
+
+      expect(result.namedResponses).toEqual([
+        {
+          schemaName: "User",
+          value: { name: "Alice", age: 30 },
+          id: "call-1",
+          jsonDocId: undefined,
+        },
+        {
+          schemaName: "Pet",
+          value: { species: "cat" },
+          id: "call-2",
+          jsonDocId: undefined,
+        },
+      ]);
+      expect(result.responses).toEqual(
+        result.namedResponses.map((r) => r.value)
+      );
+
+      const [first] = result.namedResponses;
+      if (first?.schemaName === "User") {
+        expectTypeOf(first.value).toEqualTypeOf<{
+          name: string;
+          age: number;
+        }>();
+      }
+    });
+
+    it("should accept existing documents typed against the tools", async () => {
+      const { llm } = fakeLlm([
+        toolCall("call-1", "PatchDoc", {
+          json_doc_id: "pet-1",
+          planned_edits: "",
+          patches: [{ op: "replace", path: "/species", value: "dog" }],
+        }),
+      ]);
+
+      const extractor = createExtractor(llm, { tools: [User, Pet] });
+      const result = await extractor.invoke({
+        messages: "It's a dog actually",
+        existing: [
+          { recordId: "pet-1", schemaName: "Pet", record: { species: "cat" } },
+        ],
+      });
+
+      expect(result.namedResponses).toEqual([
+        {
+          schemaName: "Pet",
+          value: { species: "dog" },
+          id: "call-1",
+          jsonDocId: "pet-1",
+        },
+      ]);
+
+      // Untyped documents, e.g. loaded from storage, are accepted as well
+      const stored: SchemaInstance[] = [];
+      expectTypeOf(extractor.invoke).toBeCallableWith({
+        messages: "",
+        existing: stored,
+      });
+    });
+
+    it("should reject existing documents that don't match the tools", () => {
+      const { llm } = fakeLlm([]);
+      const extractor = createExtractor(llm, { tools: [User, Pet] });
+
+      // Only type-checked, never called
+      const invalidInputs = () => [
+        // @ts-expect-error species must be a string
+        extractor.invoke({
+          messages: "",
+          existing: [
+            { recordId: "a", schemaName: "Pet", record: { species: 1 } },
+          ],
+        }),
+        // @ts-expect-error there is no Plant tool
+        extractor.invoke({
+          messages: "",
+          existing: [{ recordId: "a", schemaName: "Plant", record: {} }],
+        }),
+        // @ts-expect-error Pets have no name
+        extractor.invoke({
+          messages: "",
+          existing: { Pet: { name: "Rex" } },
+        }),
+      ];
+      expect(invalidInputs).toBeTypeOf("function");
+    });
+  });
+
+  describe("streamResponses", () => {
+    async function collect<T>(stream: AsyncIterable<T>): Promise<T[]> {
+      const events: T[] = [];
+      for await (const event of stream) {
+        events.push(event);
+      }
+      return events;
+    }
+
+    it("should stream partial arguments, validation, repairs and the result", async () => {
+      const { llm } = fakeLlm([
+        toolCall("call-1", "UserInfo", { name: "Alice", age: "thirty" }),
+        patchErrors("call-1", [{ op: "replace", path: "/age", value: 30 }]),
+      ]);
+
+      const extractor = createExtractor(llm, { tools: [UserInfo] });
+      const events = await collect(extractor.streamResponses("I'm Alice, 30"));
+
+      const partials = events.filter((e) => e.type === "partial");
+      expect(partials.length).toBeGreaterThan(1);
+      expect(partials.at(-1)).toEqual({
+        type: "partial",
+        toolCallId: "call-1",
+        toolName: "UserInfo",
+        args: { name: "Alice", age: "thirty" },
+      });
+      // Earlier events hold a prefix of the final arguments
+      expect(partials[0]).not.toEqual(partials.at(-1));
+
+      expect(events.filter((e) => e.type !== "partial")).toMatchObject([
+        { type: "validation", toolCallId: "call-1", valid: false },
+        {
+          type: "repair",
+          toolCallId: "call-1",
+          args: { name: "Alice", age: 30 },
+        },
+        { type: "validation", toolCallId: "call-1", valid: true },
+        {
+          type: "result",
+          result: { responses: [{ name: "Alice", age: 30 }], errors: [] },
+        },
+      ]);
+    });
+
+    it("should not stream partial arguments of patch calls", async () => {
+      const { llm } = fakeLlm([
+        toolCall("call-1", "PatchDoc", {
+          json_doc_id: "UserInfo",
+          planned_edits: "",
+          patches: [{ op: "replace", path: "/age", value: 31 }],
+        }),
+      ]);
+
+      const extractor = createExtractor(llm, { tools: [UserInfo] });
+      const events = await collect(
+        extractor.streamResponses({
+          messages: "I just turned 31",
+          existing: { UserInfo: { name: "Alice", age: 30 } },
+        })
+      );
+
+      expect(events.map((e) => e.type)).toEqual(["validation", "result"]);
+    });
+  });
+});
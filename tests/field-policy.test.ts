@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { checkFieldPolicies } from "../src/trustcall/field-policy.js";
+
+describe("checkFieldPolicies", () => {
+  const before = {
+    id: "u-1",
+    name: "Alice",
+    email: null,
+    tags: ["a", "b"],
+    notes: "Likes tea.",
+    audit: { created: "2024-01-01", by: { user: "admin" } },
+  };
+
+  it("should allow changes to unprotected fields", () => {
+    expect(
+      checkFieldPolicies(
+        before,
+        { ...before, name: "Alicia" },
+        {
+          "/id": "read-only",
+        }
+      )
+    ).toEqual([]);
+  });
+
+  it("should reject any change to a read-only field", () => {
+    expect(
+      checkFieldPolicies(
+        before,
+        { ...before, id: "u-2" },
+        { "/id": "read-only" }
+      )
+    ).toEqual([
+      {
+        path: "/id",
+        policy: "read-only",
+        message: "This field is read-only and must not be changed.",
+      },
+    ]);
+  });
+
+  it("should let an immutable field be set only while empty", () => {
+    const policies = {
+      "/email": "immutable-once-set",
+      "/name": "immutable-once-set",
+    } as const;
+    expect(
+      checkFieldPolicies(before, { ...before, email: "a@x.com" }, policies)
+    ).toEqual([]);
+    expect(
+      checkFieldPolicies(before, { ...before, name: "Bob" }, policies)
+    ).toMatchObject([{ path: "/name", policy: "immutable-once-set" }]);
+  });
+
+  it("should only let append-only fields grow at the end", () => {
+    const policies = {
+      "/tags": "append-only",
+      "/notes": "append-only",
+    } as const;
+    expect(
+      checkFieldPolicies(
+        before,
+        { ...before, tags: ["a", "b", "c"], notes: "Likes tea. And cake." },
+        policies
+      )
+    ).toEqual([]);
+    expect(
+      checkFieldPolicies(
+        before,
+        { ...before, tags: ["b", "a"], notes: "Likes coffee." },
+        policies
+      ).map((v) => v.path)
+    ).toEqual(["/tags", "/notes"]);
+  });
+
+  it("should match globs and report only the outermost violation", () => {
+    const after = {
+      ...before,
+      tags: ["x", "b"],
+      audit: { created: "2025-01-01", by: { user: "root" } },
+    };
+    expect(
+      checkFieldPolicies(before, after, {
+        "/tags/*": "read-only",
+        "/audit/**": "read-only",
+      }).map((v) => v.path)
+    ).toEqual(["/tags/0", "/audit"]);
+    expect(
+      checkFieldPolicies(before, after, { "/*/user": "read-only" })
+    ).toEqual([]);
+    expect(
+      checkFieldPolicies(before, after, { "/**/user": "read-only" }).map(
+        (v) => v.path
+      )
+    ).toEqual(["/audit/by/user"]);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import { diffJson, type DiffOptions } from "../src/trustcall/json-diff.js";
+import { applyJsonPatches } from "../src/trustcall/json-patch.js";
+
+function expectRoundTrip(
+  before: unknown,
+  after: unknown,
+  options?: DiffOptions
+) {
+  const patches = diffJson(before, after, options);
+  const result = applyJsonPatches(
+    { root: before },
+    patches.map((patch) => ({
+      ...patch,
+      path: `/root${patch.path}`,
+      ...(patch.from !== undefined ? { from: `/root${patch.from}` } : {}),
+    }))
+  );
+  expect(result.root).toEqual(after);
+  return patches;
+}
+
+describe("diffJson", () => {
+  it("should return no patches for equal values", () => {
+    expect(diffJson({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual([]);
+  });
+
+  it("should diff objects key by key", () => {
+    expect(
+      expectRoundTrip(
+        { name: "Alice", age: 30, address: { city: "Paris" } },
+        { name: "Alice", age: 31, address: { city: "Lyon", zip: "69001" } }
+      )
+    ).toEqual([
+      { op: "replace", path: "/age", value: 31 },
+      { op: "add", path: "/address/zip", value: "69001" },
+      { op: "replace", path: "/address/city", value: "Lyon" },
+    ]);
+  });
+
+  it("should turn renamed keys into moves", () => {
+    expect(
+      expectRoundTrip(
+        { fullName: { first: "Ada" }, age: 1 },
+        { name: { first: "Ada" }, age: 1 }
+      )
+    ).toEqual([{ op: "move", from: "/fullName", path: "/name" }]);
+  });
+
+  it("should only touch inserted and removed array elements", () => {
+    expect(expectRoundTrip(["a", "b", "c", "d"], ["a", "x", "b", "d"])).toEqual(
+      [
+        { op: "remove", path: "/2" },
+        { op: "add", path: "/1", value: "x" },
+      ]
+    );
+  });
+
+  it("should turn reordered array elements into moves", () => {
+    expect(expectRoundTrip(["x", "a", "b"], ["a", "b", "x"])).toEqual([
+      { op: "move", from: "/0", path: "/2" },
+    ]);
+    expect(expectRoundTrip(["a", "b"], ["b", "a", "c"])).toEqual([
+      { op: "move", from: "/0", path: "/1" },
+      { op: "add", path: "/2", value: "c" },
+    ]);
+  });
+
+  it("should diff changed array elements in place", () => {
+    expect(
+      expectRoundTrip(
+        [{ name: "Alice", age: 30 }, { name: "Bob" }],
+        [{ name: "Alice", age: 31 }, { name: "Bob" }]
+      )
+    ).toEqual([{ op: "replace", path: "/0/age", value: 31 }]);
+    expect(expectRoundTrip([1, 2, 3], [1, 5, 3])).toEqual([
+      { op: "replace", path: "/1", value: 5 },
+    ]);
+  });
+
+  it("should pair changed array elements by their fields", () => {
+    expect(
+      expectRoundTrip(
+        [
+          { name: "Bob", age: 1 },
+          { name: "Cy", age: 2 },
+        ],
+        [{ name: "Cy", age: 9 }]
+      )
+    ).toEqual([
+      { op: "remove", path: "/0" },
+      { op: "replace", path: "/0/age", value: 9 },
+    ]);
+  });
+
+  it("should pair changed array elements by key field", () => {
+    const before = {
+      friends: [
+        { name: "Bob", age: 9 },
+        { name: "Cy", age: 2 },
+      ],
+    };
+    const after = { friends: [{ name: "Cy", age: 9 }] };
+    expect(
+      expectRoundTrip(before, after, { arrayKeys: { "/friends": "name" } })
+    ).toEqual([
+      { op: "remove", path: "/friends/0" },
+      { op: "replace", path: "/friends/0/age", value: 9 },
+    ]);
+    // Items with different keys are never diffed against each other
+    expect(
+      expectRoundTrip(
+        { friends: [{ name: "Bob", age: 9 }] },
+        { friends: [{ name: "Cy", age: 9 }] },
+        { arrayKeys: { "/*": "name" } }
+      )
+    ).toEqual([
+      { op: "remove", path: "/friends/0" },
+      { op: "add", path: "/friends/0", value: { name: "Cy", age: 9 } },
+    ]);
+  });
+
+  it("should replace values of different types", () => {
+    expect(expectRoundTrip({ a: [1] }, { a: { 0: 1 } })).toEqual([
+      { op: "replace", path: "/a", value: { 0: 1 } },
+    ]);
+    expect(diffJson({ a: 1 }, [1])).toEqual([
+      { op: "replace", path: "", value: [1] },
+    ]);
+  });
+
+  it("should escape keys in paths", () => {
+    expect(expectRoundTrip({ "a/b": 1, "c~d": 1 }, { "a/b": 2 })).toEqual([
+      { op: "remove", path: "/c~0d" },
+      { op: "replace", path: "/a~1b", value: 2 },
+    ]);
+  });
+
+  it("should not treat inherited properties as keys", () => {
+    expectRoundTrip({ a: 1 }, { toString: 1 });
+  });
+
+  it("should round-trip random arrays", () => {
+    let seed = 7;
+    const random = (n: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % n;
+    };
+    const element = () =>
+      random(3) === 0 ? { id: random(4), tags: [random(3)] } : random(6);
+    for (let run = 0; run < 200; run++) {
+      const before = Array.from({ length: random(7) }, element);
+      const after = Array.from({ length: random(7) }, () =>
+        random(2) === 0 && before.length > 0
+          ? before[random(before.length)]
+          : element()
+      );
+      expectRoundTrip(before, after);
+      expectRoundTrip(before, after, { arrayKeys: { "": "id" } });
+    }
+  });
+});
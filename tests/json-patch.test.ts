@@ -1,8 +1,14 @@
 import { describe, it, expect } from "vitest";
 import {
   applyJsonPatches,
+  applyMergePatch,
+  ensureObject,
   ensurePatches,
+  invertJsonPatches,
+  formatJsonPointer,
+  parseJsonPointer,
 } from "../src/trustcall/json-patch.js";
+import { PatchApplicationError } from "../src/trustcall/errors.js";
 import type { JsonPatchOp } from "../src/trustcall/types.js";
 
 describe("applyJsonPatches", () => {
@@ -23,13 +29,14 @@ describe("applyJsonPatches", () => {
       expect(result).toEqual({ user: { name: "Alice", age: 30 } });
     });
 
-    it("should create intermediate objects when needed", () => {
+    it("should reject missing intermediate objects", () => {
       const target = {};
       const patches: JsonPatchOp[] = [
         { op: "add", path: "/user/name", value: "Alice" },
       ];
-      const result = applyJsonPatches(target, patches);
-      expect(result).toEqual({ user: { name: "Alice" } });
+      expect(() => applyJsonPatches(target, patches)).toThrow(
+        'path "/user" does not exist'
+      );
     });
 
     it("should append to array with - index", () => {
@@ -47,7 +54,68 @@ describe("applyJsonPatches", () => {
         { op: "add", path: "/items/1", value: "x" },
       ];
       const result = applyJsonPatches(target, patches);
-      expect(result).toEqual({ items: ["a", "x", "c"] });
+      expect(result).toEqual({ items: ["a", "x", "b", "c"] });
+    });
+
+    it("should insert at the end of an array with index equal to length", () => {
+      const target = { items: ["a"] };
+      const patches: JsonPatchOp[] = [
+        { op: "add", path: "/items/1", value: "b" },
+      ];
+      const result = applyJsonPatches(target, patches);
+      expect(result).toEqual({ items: ["a", "b"] });
+    });
+
+    it("should reject array indices past the end", () => {
+      const target = { items: ["a"] };
+      const patches: JsonPatchOp[] = [
+        { op: "add", path: "/items/5", value: "b" },
+      ];
+      expect(() => applyJsonPatches(target, patches)).toThrow("out of bounds");
+    });
+
+    it("should replace the whole document at the root path", () => {
+      const target = { a: 1 };
+      const patches: JsonPatchOp[] = [{ op: "add", path: "", value: { b: 2 } }];
+      const result = applyJsonPatches(target, patches);
+      expect(result).toEqual({ b: 2 });
+    });
+  });
+
+  describe("JSON Pointer escaping", () => {
+    it("should decode ~1 as a slash in keys", () => {
+      const target = { links: { "https://example.com/a": 1 } };
+      const patches: JsonPatchOp[] = [
+        { op: "replace", path: "/links/https:~1~1example.com~1a", value: 2 },
+      ];
+      const result = applyJsonPatches(target, patches);
+      expect(result).toEqual({ links: { "https://example.com/a": 2 } });
+    });
+
+    it("should decode ~0 as a tilde in keys", () => {
+      const target = { "~home": "old" };
+      const patches: JsonPatchOp[] = [
+        { op: "replace", path: "/~0home", value: "new" },
+      ];
+      const result = applyJsonPatches(target, patches);
+      expect(result).toEqual({ "~home": "new" });
+    });
+
+    it("should decode ~01 as a literal ~1", () => {
+      const target = {};
+      const patches: JsonPatchOp[] = [{ op: "add", path: "/a~01b", value: 1 }];
+      const result = applyJsonPatches(target, patches);
+      expect(result).toEqual({ "a~1b": 1 });
+    });
+
+    it("should reject pointers without a leading slash", () => {
+      const target = { name: "Alice" };
+      const patches: JsonPatchOp[] = [
+        { op: "replace", path: "name", value: "Bob" },
+      ];
+      expect(() => applyJsonPatches(target, patches)).toThrow(
+        'must start with "/"'
+      );
     });
   });
 
@@ -72,6 +140,14 @@ describe("applyJsonPatches", () => {
       const result = applyJsonPatches(target, patches);
       expect(result).toEqual({ items: ["a", "c"] });
     });
+
+    it("should fail when the target does not exist", () => {
+      const target = { name: "Alice" };
+      const patches: JsonPatchOp[] = [{ op: "remove", path: "/age" }];
+      expect(() => applyJsonPatches(target, patches)).toThrow(
+        'path "/age" does not exist'
+      );
+    });
   });
 
   describe("replace operation", () => {
@@ -101,6 +177,16 @@ describe("applyJsonPatches", () => {
       const result = applyJsonPatches(target, patches);
       expect(result).toEqual({ items: ["a", "x", "c"] });
     });
+
+    it("should fail when the target does not exist", () => {
+      const target = { user: {} };
+      const patches: JsonPatchOp[] = [
+        { op: "replace", path: "/user/name", value: "Bob" },
+      ];
+      expect(() => applyJsonPatches(target, patches)).toThrow(
+        'path "/user/name" does not exist'
+      );
+    });
   });
 
   describe("move operation", () => {
@@ -121,6 +207,16 @@ describe("applyJsonPatches", () => {
       const result = applyJsonPatches(target, patches);
       expect(result).toEqual({ items: ["b", "c"], first: "a" });
     });
+
+    it("should reject moving a value into its own child", () => {
+      const target = { a: { b: 1 } };
+      const patches: JsonPatchOp[] = [
+        { op: "move", path: "/a/b/c", from: "/a" },
+      ];
+      expect(() => applyJsonPatches(target, patches)).toThrow(
+        "into its own child"
+      );
+    });
   });
 
   describe("copy operation", () => {
@@ -166,6 +262,69 @@ describe("applyJsonPatches", () => {
         'Test failed: expected "Bob", got "Alice"'
       );
     });
+
+    it("should compare objects regardless of key order", () => {
+      const target = { user: { name: "Alice", age: 30 } };
+      const patches: JsonPatchOp[] = [
+        { op: "test", path: "/user", value: { age: 30, name: "Alice" } },
+      ];
+      expect(() => applyJsonPatches(target, patches)).not.toThrow();
+    });
+  });
+
+  describe("atomicity", () => {
+    it("should not apply earlier operations when a later one fails", () => {
+      const target = { name: "Alice", age: 30 };
+      const patches: JsonPatchOp[] = [
+        { op: "replace", path: "/name", value: "Bob" },
+        { op: "test", path: "/age", value: 31 },
+      ];
+      expect(() => applyJsonPatches(target, patches)).toThrow("Patch 1 (test");
+      expect(target).toEqual({ name: "Alice", age: 30 });
+    });
+
+    it("should report the failing operation and a snapshot", () => {
+      const target = { name: "Alice", age: 30 };
+      const patches: JsonPatchOp[] = [
+        { op: "replace", path: "/name", value: "Bob" },
+        { op: "remove", path: "/email" },
+        { op: "replace", path: "/age", value: 31 },
+      ];
+      let error: unknown;
+      try {
+        applyJsonPatches(target, patches);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(PatchApplicationError);
+      const patchError = error as PatchApplicationError;
+      expect(patchError.opIndex).toBe(1);
+      expect(patchError.path).toBe("/email");
+      expect(patchError.reason).toBe('path "/email" does not exist');
+      expect(patchError.document).toEqual({ name: "Bob", age: 30 });
+    });
+
+    it("should snapshot before a half-applied move", () => {
+      const target = { a: 1, b: {} };
+      const patches: JsonPatchOp[] = [
+        { op: "move", path: "/missing/a", from: "/a" },
+      ];
+      try {
+        applyJsonPatches(target, patches);
+      } catch (e) {
+        expect((e as PatchApplicationError).document).toEqual(target);
+      }
+      expect.assertions(1);
+    });
+
+    it("should not share values between the patch and the result", () => {
+      const value = { tags: ["a"] };
+      const result = applyJsonPatches({}, [
+        { op: "add", path: "/meta", value },
+      ]);
+      value.tags.push("b");
+      expect(result).toEqual({ meta: { tags: ["a"] } });
+    });
   });
 
   describe("multiple patches", () => {
@@ -194,13 +353,178 @@ describe("applyJsonPatches", () => {
     });
   });
 
+  describe("lenient mode", () => {
+    it("should create intermediate objects when needed", () => {
+      const target = {};
+      const patches: JsonPatchOp[] = [
+        { op: "add", path: "/user/name", value: "Alice" },
+      ];
+      const result = applyJsonPatches(target, patches, { mode: "lenient" });
+      expect(result).toEqual({ user: { name: "Alice" } });
+    });
+
+    it("should create intermediate arrays for numeric keys", () => {
+      const target = {};
+      const patches: JsonPatchOp[] = [
+        { op: "add", path: "/items/0", value: "a" },
+      ];
+      const result = applyJsonPatches(target, patches, { mode: "lenient" });
+      expect(result).toEqual({ items: ["a"] });
+    });
+
+    it("should treat replace on a missing target as add", () => {
+      const target = { name: "Alice" };
+      const patches: JsonPatchOp[] = [
+        { op: "replace", path: "/age", value: 30 },
+      ];
+      const result = applyJsonPatches(target, patches, { mode: "lenient" });
+      expect(result).toEqual({ name: "Alice", age: 30 });
+    });
+
+    it("should ignore removal of a missing target", () => {
+      const target = { name: "Alice" };
+      const patches: JsonPatchOp[] = [{ op: "remove", path: "/age/0" }];
+      const result = applyJsonPatches(target, patches, { mode: "lenient" });
+      expect(result).toEqual({ name: "Alice" });
+    });
+
+    it("should append when the array index is past the end", () => {
+      const target = { items: ["a"] };
+      const patches: JsonPatchOp[] = [
+        { op: "add", path: "/items/5", value: "b" },
+      ];
+      const result = applyJsonPatches(target, patches, { mode: "lenient" });
+      expect(result).toEqual({ items: ["a", "b"] });
+    });
+
+    it("should accept paths without a leading slash", () => {
+      const target = { name: "Alice" };
+      const patches: JsonPatchOp[] = [
+        { op: "replace", path: "name", value: "Bob" },
+      ];
+      const result = applyJsonPatches(target, patches, { mode: "lenient" });
+      expect(result).toEqual({ name: "Bob" });
+    });
+
+    it("should still fail test operations", () => {
+      const target = { name: "Alice" };
+      const patches: JsonPatchOp[] = [
+        { op: "test", path: "/name", value: "Bob" },
+      ];
+      expect(() =>
+        applyJsonPatches(target, patches, { mode: "lenient" })
+      ).toThrow("Test failed");
+    });
+  });
+
+  describe("keyed array items", () => {
+    const target = {
+      friends: [
+        { id: 1, name: "Alice", age: 30 },
+        { id: 2, name: "Bob", age: 25 },
+        { id: 3, name: "Carol", age: 41 },
+      ],
+    };
+
+    it("should resolve keys to the current index of each item", () => {
+      const result = applyJsonPatches(target, [
+        { op: "remove", path: "/friends/[name=Alice]" },
+        { op: "replace", path: "/friends/[name=Carol]/age", value: 42 },
+        { op: "remove", path: "/friends/[id=2]" },
+      ]);
+      expect(result).toEqual({
+        friends: [{ id: 3, name: "Carol", age: 42 }],
+      });
+    });
+
+    it("should fail unless exactly one item matches", () => {
+      expect(() =>
+        applyJsonPatches(target, [
+          { op: "replace", path: "/friends/[name=Dan]/age", value: 1 },
+        ])
+      ).toThrow('no item of "/friends" has name=Dan');
+      expect(() =>
+        applyJsonPatches(
+          { friends: [...target.friends, { id: 4, name: "Bob" }] },
+          [{ op: "remove", path: "/friends/[name=Bob]" }],
+          { mode: "lenient" }
+        )
+      ).toThrow('2 items of "/friends" have name=Bob');
+    });
+
+    it("should only resolve keys in arrays", () => {
+      expect(
+        applyJsonPatches(
+          { friends: {} },
+          [{ op: "add", path: "/friends/[name=Alice]/age", value: 30 }],
+          { mode: "lenient" }
+        )
+      ).toEqual({ friends: { "[name=Alice]": { age: 30 } } });
+      expect(
+        applyJsonPatches({ m: {} }, [{ op: "add", path: "/m/[a=b]", value: 1 }])
+      ).toEqual({ m: { "[a=b]": 1 } });
+      expect(
+        applyJsonPatches({ "[a=b]": 1 }, [
+          { op: "replace", path: "/[a=b]", value: 2 },
+        ])
+      ).toEqual({ "[a=b]": 2 });
+    });
+
+    it("should be inverted with indices", () => {
+      const patches: JsonPatchOp[] = [
+        { op: "remove", path: "/friends/[name=Alice]" },
+        { op: "replace", path: "/friends/[name=Carol]/age", value: 42 },
+      ];
+      const undo = invertJsonPatches(target, patches);
+      expect(undo).toEqual([
+        { op: "replace", path: "/friends/1/age", value: 41 },
+        { op: "add", path: "/friends/0", value: target.friends[0] },
+      ]);
+      expect(applyJsonPatches(applyJsonPatches(target, patches), undo)).toEqual(
+        target
+      );
+    });
+
+    it("should resolve the target of a move after removing its source", () => {
+      const items = {
+        a: ["w", "x", "y", "z"].map((id) => ({ id, k: [] as unknown[] })),
+      };
+      const moveInto = (id: string): JsonPatchOp[] => [
+        { op: "move", from: "/a/0", path: `/a/[id=${id}]/k/0` },
+      ];
+      const withItem = (id: string, k: unknown[]) => ({ id, k });
+
+      expect(applyJsonPatches(items, moveInto("y"))).toEqual({
+        a: [
+          withItem("x", []),
+          withItem("y", [withItem("w", [])]),
+          withItem("z", []),
+        ],
+      });
+      // Resolved before the removal, the last item's index would be too high
+      expect(applyJsonPatches(items, moveInto("z"))).toEqual({
+        a: [
+          withItem("x", []),
+          withItem("y", []),
+          withItem("z", [withItem("w", [])]),
+        ],
+      });
+
+      for (const patches of [moveInto("y"), moveInto("z")]) {
+        const updated = applyJsonPatches(items, patches);
+        const undo = invertJsonPatches(items, patches);
+        expect(applyJsonPatches(updated, undo)).toEqual(items);
+      }
+    });
+  });
+
   describe("string concatenation fix", () => {
     it("should convert array append on string to string concatenation", () => {
       const target = { description: "Hello" };
       const patches: JsonPatchOp[] = [
         { op: "add", path: "/description/-", value: " World" },
       ];
-      const result = applyJsonPatches(target, patches);
+      const result = applyJsonPatches(target, patches, { mode: "lenient" });
       expect(result).toEqual({ description: "Hello World" });
     });
 
@@ -210,16 +534,26 @@ describe("applyJsonPatches", () => {
         { op: "add", path: "/text/-", value: " middle" },
         { op: "add", path: "/text/-", value: " end" },
       ];
-      const result = applyJsonPatches(target, patches);
+      const result = applyJsonPatches(target, patches, { mode: "lenient" });
       expect(result).toEqual({ text: "Start middle end" });
     });
 
+    it("should reject string appends in strict mode", () => {
+      const target = { description: "Hello" };
+      const patches: JsonPatchOp[] = [
+        { op: "add", path: "/description/-", value: " World" },
+      ];
+      expect(() => applyJsonPatches(target, patches)).toThrow(
+        "is not a container"
+      );
+    });
+
     it("should still append to arrays normally", () => {
       const target = { items: ["a", "b"] };
       const patches: JsonPatchOp[] = [
         { op: "add", path: "/items/-", value: "c" },
       ];
-      const result = applyJsonPatches(target, patches);
+      const result = applyJsonPatches(target, patches, { mode: "lenient" });
       expect(result).toEqual({ items: ["a", "b", "c"] });
     });
 
@@ -228,12 +562,161 @@ describe("applyJsonPatches", () => {
       const patches: JsonPatchOp[] = [
         { op: "add", path: "/user/bio/-", value: " and writer" },
       ];
-      const result = applyJsonPatches(target, patches);
+      const result = applyJsonPatches(target, patches, { mode: "lenient" });
       expect(result).toEqual({ user: { bio: "Developer and writer" } });
     });
   });
 });
 
+describe("invertJsonPatches", () => {
+  const profile = {
+    name: "Alice",
+    tags: ["a", "b", "c"],
+    address: { city: "Paris", zip: "75001" },
+  };
+
+  function expectUndo(
+    patches: JsonPatchOp[],
+    mode: "strict" | "lenient" = "strict"
+  ) {
+    const updated = applyJsonPatches(profile, patches, { mode });
+    const undo = invertJsonPatches(profile, patches, { mode });
+    expect(applyJsonPatches(updated, undo)).toEqual(profile);
+    return undo;
+  }
+
+  it("should invert each operation", () => {
+    expect(
+      expectUndo([
+        { op: "replace", path: "/name", value: "Al" },
+        { op: "add", path: "/age", value: 30 },
+        { op: "remove", path: "/address/zip" },
+      ])
+    ).toEqual([
+      { op: "add", path: "/address/zip", value: "75001" },
+      { op: "remove", path: "/age" },
+      { op: "replace", path: "/name", value: "Alice" },
+    ]);
+  });
+
+  it("should invert array insertions and removals", () => {
+    expect(
+      expectUndo([
+        { op: "remove", path: "/tags/0" },
+        { op: "add", path: "/tags/1", value: "x" },
+        { op: "add", path: "/tags/-", value: "y" },
+      ])
+    ).toEqual([
+      { op: "remove", path: "/tags/3" },
+      { op: "remove", path: "/tags/1" },
+      { op: "add", path: "/tags/0", value: "a" },
+    ]);
+  });
+
+  it("should invert moves, copies and whole-document replacements", () => {
+    expectUndo([
+      { op: "move", from: "/address/city", path: "/city" },
+      { op: "copy", from: "/tags", path: "/labels" },
+      { op: "add", path: "/labels/-", value: "z" },
+      { op: "test", path: "/city", value: "Paris" },
+    ]);
+    expectUndo([{ op: "replace", path: "", value: { name: "Bob" } }]);
+  });
+
+  it("should invert lenient fixes", () => {
+    expect(
+      expectUndo(
+        [
+          { op: "replace", path: "/nickname", value: "Al" },
+          { op: "add", path: "/job/title", value: "Engineer" },
+          { op: "remove", path: "/missing" },
+          { op: "add", path: "/name/-", value: " Smith" },
+          { op: "add", path: "tags/10", value: "d" },
+        ],
+        "lenient"
+      )
+    ).toEqual([
+      { op: "remove", path: "/tags/3" },
+      { op: "replace", path: "/name", value: "Alice" },
+      { op: "remove", path: "/job" },
+      { op: "remove", path: "/nickname" },
+    ]);
+  });
+
+  it("should invert containers appended to arrays by index", () => {
+    const target = { friends: [] };
+    const patches: JsonPatchOp[] = [
+      { op: "add", path: "/friends/-/name", value: "Bob" },
+    ];
+    const updated = applyJsonPatches(target, patches, { mode: "lenient" });
+    const undo = invertJsonPatches(target, patches, { mode: "lenient" });
+    expect(undo).toEqual([{ op: "remove", path: "/friends/0" }]);
+    expect(applyJsonPatches(updated, undo)).toEqual(target);
+  });
+
+  it("should not be affected by later operations on moved values", () => {
+    const target = { a: { list: [1] }, b: {} };
+    const patches: JsonPatchOp[] = [
+      { op: "move", from: "/a", path: "/b/a" },
+      { op: "add", path: "/b/a/list/-", value: 2 },
+    ];
+    const updated = applyJsonPatches(target, patches);
+    const undo = invertJsonPatches(target, patches);
+    expect(applyJsonPatches(updated, undo)).toEqual(target);
+  });
+
+  it("should throw for patches that don't apply", () => {
+    expect(() =>
+      invertJsonPatches(profile, [{ op: "remove", path: "/missing" }])
+    ).toThrow(PatchApplicationError);
+  });
+});
+
+describe("parseJsonPointer", () => {
+  it("should return no tokens for the root pointer", () => {
+    expect(parseJsonPointer("")).toEqual([]);
+  });
+
+  it("should unescape reference tokens", () => {
+    expect(parseJsonPointer("/a~1b/c~0d/")).toEqual(["a/b", "c~d", ""]);
+  });
+
+  it("should reject a ~ that isn't an escape", () => {
+    expect(() => parseJsonPointer("/a~2b")).toThrow(
+      '"~" must be followed by "0" or "1"'
+    );
+    expect(() => parseJsonPointer("/a~")).toThrow(
+      '"~" must be followed by "0" or "1"'
+    );
+  });
+
+  it("should read a stray ~ literally in lenient mode", () => {
+    expect(parseJsonPointer("/a~2b/c~", { mode: "lenient" })).toEqual([
+      "a~2b",
+      "c~",
+    ]);
+  });
+
+  it("should apply patches with a stray ~ only in lenient mode", () => {
+    const patches: JsonPatchOp[] = [{ op: "add", path: "/a~b", value: 1 }];
+    expect(() => applyJsonPatches({}, patches)).toThrow(PatchApplicationError);
+    expect(applyJsonPatches({}, patches, { mode: "lenient" })).toEqual({
+      "a~b": 1,
+    });
+  });
+});
+
+describe("formatJsonPointer", () => {
+  it("should escape reference tokens", () => {
+    expect(formatJsonPointer(["a/b", "c~d", 0])).toBe("/a~1b/c~0d/0");
+  });
+
+  it("should round-trip with parseJsonPointer", () => {
+    const tokens = ["files", "src/index.ts", "~tmp"];
+    expect(parseJsonPointer(formatJsonPointer(tokens))).toEqual(tokens);
+  });
+});
+
 describe("ensurePatches", () => {
   it("should return patches array directly", () => {
     const patches: JsonPatchOp[] = [{ op: "add", path: "/foo", value: "bar" }];
@@ -267,3 +750,55 @@ describe("ensurePatches", () => {
     expect(result).toEqual([]);
   });
 });
+
+describe("applyMergePatch", () => {
+  it("should pass the examples of RFC 7386", () => {
+    const examples: Array<[unknown, unknown, unknown]> = [
+      [{ a: "b" }, { a: "c" }, { a: "c" }],
+      [{ a: "b" }, { b: "c" }, { a: "b", b: "c" }],
+      [{ a: "b" }, { a: null }, {}],
+      [{ a: "b", b: "c" }, { a: null }, { b: "c" }],
+      [{ a: ["b"] }, { a: "c" }, { a: "c" }],
+      [{ a: "c" }, { a: ["b"] }, { a: ["b"] }],
+      [{ a: { b: "c" } }, { a: { b: "d", c: null } }, { a: { b: "d" } }],
+      [{ a: [{ b: "c" }] }, { a: [1] }, { a: [1] }],
+      [
+        ["a", "b"],
+        ["c", "d"],
+        ["c", "d"],
+      ],
+      [{ a: "b" }, ["c"], ["c"]],
+      [{ a: "foo" }, null, null],
+      [{ a: "foo" }, "bar", "bar"],
+      [{ e: null }, { a: 1 }, { e: null, a: 1 }],
+      [[1, 2], { a: "b", c: null }, { a: "b" }],
+      [{}, { a: { bb: { ccc: null } } }, { a: { bb: {} } }],
+    ];
+    for (const [target, patch, result] of examples) {
+      expect(applyMergePatch(target, patch)).toEqual(result);
+    }
+  });
+
+  it("should not mutate its arguments", () => {
+    const target = { address: { city: "Paris", zip: "75001" } };
+    const patch = { address: { zip: null }, tags: ["a"] };
+    const result = applyMergePatch(target, patch) as typeof patch;
+    result.tags.push("b");
+    expect(target).toEqual({ address: { city: "Paris", zip: "75001" } });
+    expect(patch).toEqual({ address: { zip: null }, tags: ["a"] });
+  });
+});
+
+describe("ensureObject", () => {
+  it("should return objects and parse them from JSON strings", () => {
+    expect(ensureObject({ a: 1 })).toEqual({ a: 1 });
+    expect(ensureObject('{"a": 1}')).toEqual({ a: 1 });
+  });
+
+  it("should return undefined for anything else", () => {
+    expect(ensureObject("not valid")).toBeUndefined();
+    expect(ensureObject("[1]")).toBeUndefined();
+    expect(ensureObject([1])).toBeUndefined();
+    expect(ensureObject(null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,381 @@
+import { describe, it, expect } from "vitest";
+import { jsonSchemaToZod, subschemaAt } from "../src/trustcall/json-schema.js";
+import { JsonSchemaConversionError } from "../src/trustcall/errors.js";
+
+function accepts(schema: Record<string, unknown>, value: unknown): boolean {
+  return jsonSchemaToZod(schema).safeParse(value).success;
+}
+
+describe("jsonSchemaToZod", () => {
+  describe("types", () => {
+    it("should distinguish integer from number", () => {
+      expect(accepts({ type: "integer" }, 3)).toBe(true);
+      expect(accepts({ type: "integer" }, 3.5)).toBe(false);
+      expect(accepts({ type: "number" }, 3.5)).toBe(true);
+    });
+
+    it("should accept any of the types in a type array", () => {
+      const schema = { type: ["string", "null"] };
+      expect(accepts(schema, "a")).toBe(true);
+      expect(accepts(schema, null)).toBe(true);
+      expect(accepts(schema, 1)).toBe(false);
+    });
+
+    it("should support OpenAPI nullable", () => {
+      expect(accepts({ type: "string", nullable: true }, null)).toBe(true);
+      expect(accepts({ type: "string" }, null)).toBe(false);
+    });
+
+    it("should accept anything for true and empty schemas", () => {
+      expect(jsonSchemaToZod(true).safeParse(1).success).toBe(true);
+      expect(accepts({}, { any: "thing" })).toBe(true);
+      expect(jsonSchemaToZod(false).safeParse(1).success).toBe(false);
+    });
+
+    it("should infer the type from type-specific keywords", () => {
+      expect(accepts({ properties: { a: { type: "string" } } }, "a")).toBe(
+        false
+      );
+      expect(accepts({ items: { type: "string" } }, ["a"])).toBe(true);
+      expect(accepts({ minLength: 2 }, "a")).toBe(false);
+    });
+  });
+
+  describe("enum and const", () => {
+    it("should match mixed primitive enums", () => {
+      const schema = { enum: ["a", 1, null] };
+      expect(accepts(schema, 1)).toBe(true);
+      expect(accepts(schema, null)).toBe(true);
+      expect(accepts(schema, "b")).toBe(false);
+    });
+
+    it("should compare structured values deeply", () => {
+      const schema = { const: { unit: "kg", value: [1] } };
+      expect(accepts(schema, { value: [1], unit: "kg" })).toBe(true);
+      expect(accepts(schema, { value: [2], unit: "kg" })).toBe(false);
+    });
+  });
+
+  describe("strings", () => {
+    it("should check length and pattern", () => {
+      const schema = { type: "string", minLength: 2, maxLength: 5 };
+      expect(accepts(schema, "a")).toBe(false);
+      expect(accepts(schema, "abcdef")).toBe(false);
+      expect(accepts({ type: "string", pattern: "^\\d{5}$" }, "12345")).toBe(
+        true
+      );
+      expect(accepts({ type: "string", pattern: "^\\d{5}$" }, "1234")).toBe(
+        false
+      );
+    });
+
+    it("should validate known formats", () => {
+      expect(accepts({ type: "string", format: "email" }, "a@b.co")).toBe(true);
+      expect(accepts({ type: "string", format: "email" }, "nope")).toBe(false);
+      expect(
+        accepts({ type: "string", format: "date-time" }, "2024-01-02T03:04:05Z")
+      ).toBe(true);
+      expect(accepts({ type: "string", format: "date" }, "2024-13-01")).toBe(
+        false
+      );
+      expect(accepts({ type: "string", format: "uuid" }, "123")).toBe(false);
+    });
+
+    it("should ignore unknown formats", () => {
+      expect(accepts({ type: "string", format: "phone" }, "anything")).toBe(
+        true
+      );
+    });
+
+    it("should reject invalid patterns when converting", () => {
+      expect(() => jsonSchemaToZod({ type: "string", pattern: "(" })).toThrow(
+        JsonSchemaConversionError
+      );
+    });
+  });
+
+  describe("numbers", () => {
+    it("should check inclusive and exclusive bounds", () => {
+      const schema = { type: "number", minimum: 0, exclusiveMaximum: 10 };
+      expect(accepts(schema, 0)).toBe(true);
+      expect(accepts(schema, -1)).toBe(false);
+      expect(accepts(schema, 10)).toBe(false);
+    });
+
+    it("should support boolean exclusive bounds", () => {
+      const schema = { type: "number", minimum: 0, exclusiveMinimum: true };
+      expect(accepts(schema, 0)).toBe(false);
+      expect(accepts(schema, 0.1)).toBe(true);
+    });
+
+    it("should check multipleOf", () => {
+      expect(accepts({ type: "integer", multipleOf: 5 }, 15)).toBe(true);
+      expect(accepts({ type: "integer", multipleOf: 5 }, 12)).toBe(false);
+    });
+  });
+
+  describe("arrays", () => {
+    it("should check items and length", () => {
+      const schema = {
+        type: "array",
+        items: { type: "string" },
+        minItems: 1,
+        maxItems: 2,
+      };
+      expect(accepts(schema, ["a"])).toBe(true);
+      expect(accepts(schema, [])).toBe(false);
+      expect(accepts(schema, ["a", "b", "c"])).toBe(false);
+      expect(accepts(schema, [1])).toBe(false);
+    });
+
+    it("should check uniqueItems", () => {
+      const schema = { type: "array", uniqueItems: true };
+      expect(accepts(schema, [{ a: 1 }, { a: 2 }])).toBe(true);
+      expect(accepts(schema, [{ a: 1 }, { a: 1 }])).toBe(false);
+    });
+
+    it("should check tuples item by item", () => {
+      const schema = {
+        type: "array",
+        prefixItems: [{ type: "string" }, { type: "number" }],
+        items: { type: "boolean" },
+      };
+      expect(accepts(schema, ["a", 1, true, false])).toBe(true);
+      expect(accepts(schema, ["a", 1, "x"])).toBe(false);
+
+      const result = jsonSchemaToZod(schema).safeParse([1, 1]);
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]?.path).toEqual([0]);
+    });
+  });
+
+  describe("objects", () => {
+    const Person = {
+      type: "object",
+      properties: { name: { type: "string" }, age: { type: "integer" } },
+      required: ["name"],
+    };
+
+    it("should check required and optional properties", () => {
+      expect(accepts(Person, { name: "Alice" })).toBe(true);
+      expect(accepts(Person, { age: 30 })).toBe(false);
+      expect(accepts(Person, { name: "Alice", age: "30" })).toBe(false);
+    });
+
+    it("should keep additional properties by default", () => {
+      const result = jsonSchemaToZod(Person).parse({ name: "A", extra: 1 });
+      expect(result).toEqual({ name: "A", extra: 1 });
+    });
+
+    it("should reject additional properties when they are disallowed", () => {
+      const schema = { ...Person, additionalProperties: false };
+      expect(accepts(schema, { name: "A", extra: 1 })).toBe(false);
+    });
+
+    it("should validate additional properties against a schema", () => {
+      const schema = {
+        type: "object",
+        additionalProperties: { type: "number" },
+      };
+      expect(accepts(schema, { a: 1, b: 2 })).toBe(true);
+      expect(accepts(schema, { a: "1" })).toBe(false);
+    });
+
+    it("should require keys that have no property schema", () => {
+      const schema = {
+        type: "object",
+        properties: { a: {} },
+        required: ["a", "b"],
+      };
+      expect(accepts(schema, { a: null, b: 1 })).toBe(true);
+      expect(accepts(schema, { b: 1 })).toBe(false);
+      expect(accepts(schema, { a: 1 })).toBe(false);
+    });
+
+    it("should check the number of properties", () => {
+      const schema = { type: "object", minProperties: 1, maxProperties: 2 };
+      expect(accepts(schema, {})).toBe(false);
+      expect(accepts(schema, { a: 1 })).toBe(true);
+      expect(accepts(schema, { a: 1, b: 2, c: 3 })).toBe(false);
+    });
+  });
+
+  describe("composition", () => {
+    it("should support anyOf", () => {
+      const schema = { anyOf: [{ type: "string" }, { type: "number" }] };
+      expect(accepts(schema, "a")).toBe(true);
+      expect(accepts(schema, 1)).toBe(true);
+      expect(accepts(schema, true)).toBe(false);
+    });
+
+    it("should require exactly one oneOf match", () => {
+      const schema = {
+        oneOf: [
+          { type: "integer", multipleOf: 3 },
+          { type: "integer", multipleOf: 5 },
+        ],
+      };
+      expect(accepts(schema, 3)).toBe(true);
+      expect(accepts(schema, 15)).toBe(false);
+      expect(accepts(schema, 7)).toBe(false);
+    });
+
+    it("should combine allOf subschemas", () => {
+      const schema = {
+        allOf: [
+          {
+            type: "object",
+            properties: { a: { type: "string" } },
+            required: ["a"],
+          },
+          {
+            type: "object",
+            properties: { b: { type: "number" } },
+            required: ["b"],
+          },
+        ],
+      };
+      expect(accepts(schema, { a: "x", b: 1 })).toBe(true);
+      expect(accepts(schema, { a: "x" })).toBe(false);
+    });
+
+    it("should combine a base schema with anyOf constraints", () => {
+      const schema = {
+        type: "object",
+        properties: { email: { type: "string" }, phone: { type: "string" } },
+        anyOf: [{ required: ["email"] }, { required: ["phone"] }],
+      };
+      expect(accepts(schema, { phone: "555" })).toBe(true);
+      expect(accepts(schema, {})).toBe(false);
+    });
+
+    it("should support not", () => {
+      expect(accepts({ not: { type: "string" } }, 1)).toBe(true);
+      expect(accepts({ not: { type: "string" } }, "a")).toBe(false);
+    });
+  });
+
+  describe("references", () => {
+    it("should resolve $defs and definitions", () => {
+      const schema = {
+        type: "object",
+        properties: {
+          home: { $ref: "#/$defs/Address" },
+          work: { $ref: "#/definitions/Address" },
+        },
+        $defs: { Address: { type: "object", required: ["city"] } },
+        definitions: { Address: { type: "object", required: ["city"] } },
+      };
+      expect(
+        accepts(schema, { home: { city: "A" }, work: { city: "B" } })
+      ).toBe(true);
+      expect(accepts(schema, { home: {} })).toBe(false);
+      expect(accepts(schema, { work: {} })).toBe(false);
+    });
+
+    it("should support recursive references", () => {
+      const schema = {
+        $ref: "#/$defs/Node",
+        $defs: {
+          Node: {
+            type: "object",
+            properties: {
+              value: { type: "number" },
+              children: { type: "array", items: { $ref: "#/$defs/Node" } },
+            },
+            required: ["value"],
+          },
+        },
+      };
+      const tree = { value: 1, children: [{ value: 2, children: [] }] };
+      expect(accepts(schema, tree)).toBe(true);
+      expect(accepts(schema, { value: 1, children: [{}] })).toBe(false);
+    });
+
+    it("should reject unresolvable and remote references", () => {
+      expect(() => jsonSchemaToZod({ $ref: "#/$defs/Missing" })).toThrow(
+        'Cannot resolve reference "#/$defs/Missing" at #'
+      );
+      expect(() =>
+        jsonSchemaToZod({ $ref: "https://example.com/schema.json" })
+      ).toThrow("Only local references are supported");
+    });
+  });
+
+  describe("unsupported keywords", () => {
+    it("should name the keyword and where it was used", () => {
+      let error: unknown;
+      try {
+        jsonSchemaToZod({
+          type: "object",
+          properties: { tags: { type: "object", patternProperties: {} } },
+        });
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(JsonSchemaConversionError);
+      expect(error).toMatchObject({
+        keyword: "patternProperties",
+        schemaPath: "/properties/tags",
+        message:
+          'Unsupported JSON Schema keyword "patternProperties" at #/properties/tags',
+      });
+    });
+  });
+});
+
+describe("subschemaAt", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      owner: { $ref: "#/$defs/Person" },
+      pets: { type: "array", items: { $ref: "#/$defs/Pet" } },
+      pair: { type: "array", prefixItems: [{ type: "string" }] },
+      scores: { type: "object", additionalProperties: { type: "number" } },
+    },
+    $defs: {
+      Person: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          boss: { $ref: "#/$defs/Person" },
+        },
+      },
+      Pet: {
+        anyOf: [
+          { type: "object", properties: { meows: { type: "boolean" } } },
+          { type: "object", properties: { barks: { type: "boolean" } } },
+        ],
+      },
+    },
+  };
+
+  it("should follow properties, items and references", () => {
+    expect(subschemaAt(schema, ["owner", "name"])).toEqual({ type: "string" });
+    expect(subschemaAt(schema, ["pair", 0])).toEqual({ type: "string" });
+    expect(subschemaAt(schema, ["scores", "math"])).toEqual({
+      type: "number",
+    });
+  });
+
+  it("should look inside composed schemas", () => {
+    expect(subschemaAt(schema, ["pets", 2, "barks"])).toEqual({
+      type: "boolean",
+    });
+  });
+
+  it("should inline references except recursive ones", () => {
+    expect(subschemaAt(schema, ["owner"])).toEqual({
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        boss: { $ref: "#/$defs/Person" },
+      },
+    });
+  });
+
+  it("should return undefined for paths the schema doesn't describe", () => {
+    expect(subschemaAt(schema, ["missing"])).toBeUndefined();
+    expect(subschemaAt(schema, ["pair", 1])).toBeUndefined();
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  bm25Scorer,
+  embeddingScorer,
+  selectRelevant,
+} from "../src/trustcall/relevance.js";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+
+const documents = [
+  { recordId: "a", schemaName: "Note", record: { text: "Alice likes hiking" } },
+  { recordId: "b", schemaName: "Note", record: { text: "Bob lives in Paris" } },
+  {
+    recordId: "c",
+    schemaName: "Note",
+    record: { text: "Carol moved to Paris from Paris, Texas" },
+  },
+];
+
+describe("bm25Scorer", () => {
+  it("should score documents by the query terms they contain", async () => {
+    const scores = await bm25Scorer()(
+      "Where does Bob live in Paris?",
+      documents
+    );
+    expect(scores[0]).toBe(0);
+    expect(scores[1]).toBeGreaterThan(scores[2]);
+    expect(scores[2]).toBeGreaterThan(0);
+  });
+
+  it("should weigh rare terms above common ones", async () => {
+    const [, bob, carol] = await bm25Scorer()("paris carol", documents);
+    expect(carol).toBeGreaterThan(bob);
+  });
+});
+
+describe("embeddingScorer", () => {
+  it("should score by cosine similarity", async () => {
+    const vectors: Record<string, number[]> = {
+      query: [1, 0],
+      [JSON.stringify(documents[0].record)]: [0, 1],
+      [JSON.stringify(documents[1].record)]: [1, 1],
+      [JSON.stringify(documents[2].record)]: [2, 0],
+    };
+    const embeddings = {
+      embedQuery: async (text: string) => vectors[text],
+      embedDocuments: async (texts: string[]) => texts.map((t) => vectors[t]),
+    } as EmbeddingsInterface;
+
+    const scores = await embeddingScorer(embeddings)("query", documents);
+    expect(scores[0]).toBe(0);
+    expect(scores[1]).toBeCloseTo(Math.SQRT1_2);
+    expect(scores[2]).toBeCloseTo(1);
+  });
+});
+
+describe("selectRelevant", () => {
+  it("should keep the top k documents in their original order", async () => {
+    const selected = await selectRelevant(documents, "hiking or Texas", {
+      topK: 2,
+    });
+    expect(selected).toEqual([documents[0], documents[2]]);
+  });
+
+  it("should keep tuples and schema-keyed documents in their form", async () => {
+    const scorer = () => [0, 1, 2];
+    expect(
+      await selectRelevant(
+        [
+          ["a", "Note", { text: "" }],
+          ["b", "Note", { text: "" }],
+          ["c", "Note", { text: "" }],
+        ],
+        "",
+        { topK: 1, scorer }
+      )
+    ).toEqual([["c", "Note", { text: "" }]]);
+    expect(
+      await selectRelevant({ A: {}, B: { x: 1 }, C: {} }, "", {
+        topK: 1,
+        scorer: () => [0, 1, 0],
+      })
+    ).toEqual({ B: { x: 1 } });
+  });
+
+  it("should not score collections within the limit", async () => {
+    const scorer = () => {
+      throw new Error("should not be called");
+    };
+    expect(await selectRelevant(documents, "", { topK: 3, scorer })).toBe(
+      documents
+    );
+  });
+});
@@ -130,6 +130,17 @@ describe("createRemoveDocSchema", () => {
     const result = schema.parse({ json_doc_id: "only-one" });
     expect(result).toEqual({ json_doc_id: "only-one" });
   });
+
+  it("should require reasoning when asked to", () => {
+    const schema = createRemoveDocSchema(["doc-1"], { requireReasoning: true });
+    expect(schema.safeParse({ json_doc_id: "doc-1" }).success).toBe(false);
+    expect(
+      schema.safeParse({ json_doc_id: "doc-1", reasoning: " " }).success
+    ).toBe(false);
+    expect(
+      schema.parse({ json_doc_id: "doc-1", reasoning: "Outdated" })
+    ).toEqual({ json_doc_id: "doc-1", reasoning: "Outdated" });
+  });
 });
 
 describe("createPatchFunctionNameSchema", () => {
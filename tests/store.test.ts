@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  InMemoryDocumentStore,
+  searchDocuments,
+  type DocumentStore,
+} from "../src/trustcall/store.js";
+import { FileSystemDocumentStore } from "../src/trustcall/file-store.js";
+import { ConcurrencyConflictError } from "../src/trustcall/errors.js";
+
+const alice = {
+  key: "alice",
+  schemaName: "User",
+  value: { name: "Alice", city: "Paris" },
+};
+const bob = {
+  key: "bob",
+  schemaName: "User",
+  value: { name: "Bob", city: "Berlin" },
+};
+
+function behavesLikeAStore(create: () => DocumentStore) {
+  const namespace = ["memories", "user-1"];
+
+  it("should put, get, list and delete documents", async () => {
+    const store = create();
+    await store.put(namespace, alice);
+    await store.put(namespace, bob);
+
+    expect(await store.get(namespace, "alice")).toEqual({
+      ...alice,
+      version: 1,
+    });
+    expect(await store.list(namespace)).toEqual([
+      { ...alice, version: 1 },
+      { ...bob, version: 1 },
+    ]);
+
+    await store.delete(namespace, "alice");
+    expect(await store.get(namespace, "alice")).toBeUndefined();
+    expect(await store.list(namespace)).toEqual([{ ...bob, version: 1 }]);
+  });
+
+  it("should keep namespaces apart", async () => {
+    const store = create();
+    await store.put(namespace, alice);
+    expect(await store.list(["memories", "user-2"])).toEqual([]);
+  });
+
+  it("should apply several writes together", async () => {
+    const store = create();
+    await store.put(namespace, alice);
+    await store.write(namespace, [
+      { op: "put", ...alice, value: { name: "Alice", city: "Lyon" } },
+      { op: "put", ...bob },
+      { op: "delete", key: "carol" },
+    ]);
+    expect(await store.list(namespace)).toEqual([
+      { ...alice, value: { name: "Alice", city: "Lyon" }, version: 2 },
+      { ...bob, version: 1 },
+    ]);
+  });
+
+  it("should only apply writes to the expected versions", async () => {
+    const store = create();
+    await store.write(namespace, [
+      { op: "put", ...alice },
+      { op: "put", ...bob },
+    ]);
+    await store.put(namespace, { ...bob, value: { name: "Bob" } });
+
+    const error = await store
+      .write(namespace, [
+        { op: "put", ...alice, value: { name: "Al" }, expectedVersion: 1 },
+        { op: "delete", key: "bob", expectedVersion: 1 },
+        { op: "delete", key: "carol", expectedVersion: 1 },
+      ])
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConcurrencyConflictError);
+    expect(error.conflicts).toEqual([
+      { key: "bob", expectedVersion: 1, actualVersion: 2 },
+      { key: "carol", expectedVersion: 1, actualVersion: undefined },
+    ]);
+    expect((await store.get(namespace, "alice"))?.value).toEqual(alice.value);
+  });
+
+  it("should search documents", async () => {
+    const store = create();
+    await store.write(namespace, [
+      { op: "put", ...alice },
+      { op: "put", ...bob },
+    ]);
+    expect(
+      (await store.search(namespace, "Who lives in Berlin?")).map((d) => d.key)
+    ).toEqual(["bob"]);
+  });
+}
+
+describe("InMemoryDocumentStore", () => {
+  behavesLikeAStore(() => new InMemoryDocumentStore());
+
+  it("should not share objects with callers", async () => {
+    const store = new InMemoryDocumentStore();
+    const document = structuredClone(alice);
+    await store.put(["ns"], document);
+    document.value.city = "Rome";
+    expect((await store.get(["ns"], "alice"))?.value.city).toBe("Paris");
+  });
+});
+
+describe("FileSystemDocumentStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "trustcall-store-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  behavesLikeAStore(() => new FileSystemDocumentStore(directory));
+
+  it("should keep each namespace in a JSON file", async () => {
+    const store = new FileSystemDocumentStore(directory);
+    await store.put(["memories", "user/1"], alice);
+
+    const text = await readFile(
+      join(directory, "memories", "user%2F1.json"),
+      "utf8"
+    );
+    expect(JSON.parse(text)).toEqual([{ ...alice, version: 1 }]);
+  });
+
+  it("should reject namespaces leading outside the directory", async () => {
+    const store = new FileSystemDocumentStore(join(directory, "store"));
+    await expect(store.put(["memories", ".."], alice)).rejects.toThrow(
+      'Namespace part ".." is not allowed'
+    );
+    await expect(store.list([".", "ns"])).rejects.toThrow(
+      'Namespace part "." is not allowed'
+    );
+  });
+
+  it("should apply concurrent writes in turn", async () => {
+    const store = new FileSystemDocumentStore(directory);
+    await Promise.all([store.put(["ns"], alice), store.put(["ns"], bob)]);
+    expect(await store.list(["ns"])).toHaveLength(2);
+  });
+});
+
+describe("searchDocuments", () => {
+  it("should rank documents by matching words", () => {
+    const carol = {
+      key: "carol",
+      schemaName: "User",
+      value: { name: "Carol", city: "Paris", friend: "Alice" },
+    };
+    expect(
+      searchDocuments([alice, bob, carol], "carol in paris", 1).map(
+        (d) => d.key
+      )
+    ).toEqual(["carol"]);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import { applyExtraction } from "../src/trustcall/upsert.js";
+import type { NamedResponse } from "../src/trustcall/extractor.js";
+
+function outputs(
+  responses: Array<{
+    schemaName: string;
+    value: Record<string, unknown>;
+    id: string;
+    jsonDocId?: string;
+    recordId?: string;
+  }>,
+  removedDocIds: string[] = []
+) {
+  return {
+    removedDocIds,
+    namedResponses: responses.map(
+      ({ recordId: _recordId, ...response }) => response
+    ) as NamedResponse[],
+    responseMetadata: responses.map(({ id, jsonDocId, recordId }) => ({
+      id,
+      jsonDocId,
+      recordId,
+    })),
+  };
+}
+
+describe("applyExtraction", () => {
+  const existing = [
+    { recordId: "alice", schemaName: "User", record: { name: "Alice" } },
+    { recordId: "bob", schemaName: "User", record: { name: "Bob" } },
+    { recordId: "carol", schemaName: "User", record: { name: "Carol" } },
+  ];
+
+  it("should apply updates, removals and inserts", () => {
+    const { instances, changelog } = applyExtraction(
+      existing,
+      outputs(
+        [
+          {
+            schemaName: "User",
+            value: { name: "Alice", age: 31 },
+            id: "call-1",
+            jsonDocId: "alice",
+          },
+          { schemaName: "User", value: { name: "Dan" }, id: "call-3" },
+        ],
+        ["bob"]
+      )
+    );
+
+    expect(instances).toEqual([
+      {
+        recordId: "alice",
+        schemaName: "User",
+        record: { name: "Alice", age: 31 },
+      },
+      { recordId: "carol", schemaName: "User", record: { name: "Carol" } },
+      { recordId: "call-3", schemaName: "User", record: { name: "Dan" } },
+    ]);
+    expect(changelog).toEqual({
+      inserted: ["call-3"],
+      updated: ["alice"],
+      removed: ["bob"],
+      diffs: { alice: [{ op: "add", path: "/age", value: 31 }] },
+    });
+  });
+
+  it("should not list documents that didn't change", () => {
+    const { changelog } = applyExtraction(
+      existing,
+      outputs([
+        {
+          schemaName: "User",
+          value: { name: "Carol" },
+          id: "call-1",
+          jsonDocId: "carol",
+        },
+      ])
+    );
+    expect(changelog).toEqual({
+      inserted: [],
+      updated: [],
+      removed: [],
+      diffs: {},
+    });
+  });
+
+  it("should upsert by the recordId from collection mode", () => {
+    const { instances, changelog } = applyExtraction(
+      existing,
+      outputs([
+        {
+          schemaName: "User",
+          value: { name: "Bob", age: 40 },
+          id: "call-1",
+          recordId: "bob",
+        },
+        {
+          schemaName: "User",
+          value: { name: "Erin" },
+          id: "call-2",
+          recordId: "erin",
+        },
+      ])
+    );
+    expect(instances.map((i) => i.recordId)).toEqual([
+      "alice",
+      "bob",
+      "carol",
+      "erin",
+    ]);
+    expect(changelog).toMatchObject({ inserted: ["erin"], updated: ["bob"] });
+  });
+
+  it("should accept tuples and schema-keyed documents", () => {
+    expect(
+      applyExtraction([["alice", "User", { name: "Alice" }]], outputs([]))
+        .instances
+    ).toEqual([existing[0]]);
+    expect(
+      applyExtraction({ Profile: { bio: "" } }, outputs([])).instances
+    ).toEqual([
+      { recordId: "Profile", schemaName: "Profile", record: { bio: "" } },
+    ]);
+  });
+
+  it("should only keep the version of unchanged documents", () => {
+    const versioned = existing.map((instance) => ({ ...instance, version: 1 }));
+    const { instances } = applyExtraction(
+      versioned,
+      outputs([
+        {
+          schemaName: "User",
+          value: { name: "Alice", age: 31 },
+          id: "call-1",
+          jsonDocId: "alice",
+        },
+        {
+          schemaName: "User",
+          value: { name: "Bob" },
+          id: "call-2",
+          jsonDocId: "bob",
+        },
+      ])
+    );
+    expect(instances.map((i) => i.version)).toEqual([undefined, 1, 1]);
+  });
+
+  it("should not modify the existing documents", () => {
+    const input = structuredClone(existing);
+    applyExtraction(input, outputs([], ["bob"]));
+    expect(input).toEqual(existing);
+  });
+});
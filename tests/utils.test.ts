@@ -8,6 +8,8 @@ import {
 import {
   getHistoryForToolCall,
   applyMessageOps,
+  canonicalJson,
+  estimateTokens,
 } from "../src/trustcall/utils.js";
 
 describe("getHistoryForToolCall", () => {
@@ -242,3 +244,25 @@ describe("applyMessageOps", () => {
     });
   });
 });
+
+describe("canonicalJson", () => {
+  it("should serialize equal values identically", () => {
+    expect(canonicalJson({ b: [1, { d: 2, c: 1 }], a: "x" })).toBe(
+      canonicalJson({ a: "x", b: [1, { c: 1, d: 2 }] })
+    );
+  });
+
+  it("should sort keys and skip undefined values", () => {
+    expect(canonicalJson({ b: 1, a: undefined, c: null })).toBe(
+      '{"b":1,"c":null}'
+    );
+  });
+});
+
+describe("estimateTokens", () => {
+  it("should count about 4 characters per token", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("hello world!")).toBe(3);
+    expect(estimateTokens("hello")).toBe(2);
+  });
+});
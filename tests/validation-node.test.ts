@@ -1,7 +1,10 @@
 import { describe, it, expect } from "vitest";
 import { z } from "zod";
 import { AIMessage, HumanMessage, ToolMessage } from "@langchain/core/messages";
+import { tool } from "@langchain/core/tools";
 import { ValidationNode } from "../src/trustcall/validation-node.js";
+import { customValidator } from "../src/trustcall/validators.js";
+import { ValidationError } from "../src/trustcall/errors.js";
 
 describe("ValidationNode", () => {
   const UserSchema = z
@@ -51,6 +54,40 @@ describe("ValidationNode", () => {
       expect(validator.tags).toEqual(["test", "validation"]);
     });
 
+    it("should convert the parameters of JSON Schema tools", () => {
+      const validator = new ValidationNode([
+        {
+          name: "Order",
+          description: "An order",
+          parameters: {
+            type: "object",
+            properties: { quantity: { type: "integer", minimum: 1 } },
+            required: ["quantity"],
+          },
+        },
+      ]);
+      const schema = validator.schemasByName.get("Order");
+      expect(schema?.safeParse({ quantity: 2 }).success).toBe(true);
+      expect(schema?.safeParse({ quantity: 1.5 }).success).toBe(false);
+      expect(schema?.safeParse({ quantity: 0 }).success).toBe(false);
+    });
+
+    it("should convert the JSON schema of structured tools", () => {
+      const orderTool = tool(async () => "", {
+        name: "Order",
+        description: "An order",
+        schema: {
+          type: "object",
+          properties: { quantity: { type: "integer" } },
+          required: ["quantity"],
+        },
+      });
+      const validator = new ValidationNode([orderTool]);
+      const schema = validator.schemasByName.get("Order");
+      expect(schema?.safeParse({ quantity: 2 }).success).toBe(true);
+      expect(schema?.safeParse({}).success).toBe(false);
+    });
+
     it("should use default name and empty tags", () => {
       const validator = new ValidationNode([UserSchema]);
       expect(validator.name).toBe("validation");
@@ -72,7 +109,7 @@ describe("ValidationNode", () => {
         ],
       });
 
-      const result = await validator.invoke([aiMessage]);
+      const result = (await validator.invoke([aiMessage])) as ToolMessage[];
       expect(Array.isArray(result)).toBe(true);
       expect(result).toHaveLength(1);
       expect(result[0]).toBeInstanceOf(ToolMessage);
@@ -94,7 +131,7 @@ describe("ValidationNode", () => {
         ],
       });
 
-      const result = await validator.invoke([aiMessage]);
+      const result = (await validator.invoke([aiMessage])) as ToolMessage[];
       expect(result).toHaveLength(1);
       expect(result[0].status).toBe("error");
       expect(result[0].additional_kwargs?.is_error).toBe(true);
@@ -113,7 +150,7 @@ describe("ValidationNode", () => {
         ],
       });
 
-      const result = await validator.invoke([aiMessage]);
+      const result = (await validator.invoke([aiMessage])) as ToolMessage[];
       expect(result).toHaveLength(1);
       expect(result[0].status).toBe("error");
       expect(result[0].additional_kwargs?.is_error).toBe(true);
@@ -141,7 +178,7 @@ describe("ValidationNode", () => {
         ],
       });
 
-      const result = await validator.invoke([aiMessage]);
+      const result = (await validator.invoke([aiMessage])) as ToolMessage[];
       expect(result).toHaveLength(2);
       expect(result[0].status).toBe("success");
       expect(result[1].status).toBe("success");
@@ -165,7 +202,7 @@ describe("ValidationNode", () => {
         ],
       });
 
-      const result = await validator.invoke([aiMessage]);
+      const result = (await validator.invoke([aiMessage])) as ToolMessage[];
       expect(result).toHaveLength(2);
       expect(result[0].status).toBe("success");
       expect(result[1].status).toBe("error");
@@ -173,6 +210,62 @@ describe("ValidationNode", () => {
     });
   });
 
+  describe("error artifacts", () => {
+    it("should attach the validation error as the artifact", async () => {
+      const validator = new ValidationNode([UserSchema]);
+      const aiMessage = new AIMessage({
+        content: "Invalid data",
+        tool_calls: [
+          { id: "call-1", name: "User", args: { name: "Alice", age: -5 } },
+        ],
+      });
+
+      const result = (await validator.invoke([aiMessage])) as ToolMessage[];
+      expect(result[0]?.artifact).toBeInstanceOf(z.ZodError);
+      expect((result[0]?.artifact as z.ZodError).issues[0]?.path).toEqual([
+        "age",
+      ]);
+    });
+  });
+
+  describe("validator tools", () => {
+    const Even = {
+      name: "Even",
+      validator: customValidator({
+        jsonSchema: { type: "object" },
+        parse: async (value) =>
+          (value as { n: number }).n % 2 === 0
+            ? { success: true as const, value }
+            : {
+                success: false as const,
+                issues: [{ path: ["n"], message: "Must be even" }],
+              },
+      }),
+    };
+
+    it("should validate with the validator", async () => {
+      const validator = new ValidationNode([Even]);
+      const aiMessage = new AIMessage({
+        content: "",
+        tool_calls: [
+          { id: "call-1", name: "Even", args: { n: 2 } },
+          { id: "call-2", name: "Even", args: { n: 3 } },
+        ],
+      });
+
+      const [ok, failed] = (await validator.invoke([
+        aiMessage,
+      ])) as ToolMessage[];
+      expect(ok?.status).toBe("success");
+      expect(failed?.status).toBe("error");
+      expect(failed?.content).toContain("/n: Must be even");
+      expect(failed?.artifact).toBeInstanceOf(ValidationError);
+      expect((failed?.artifact as ValidationError).issues).toEqual([
+        { path: ["n"], message: "Must be even" },
+      ]);
+    });
+  });
+
   describe("invoke with object input", () => {
     it("should return object with messages property", async () => {
       const validator = new ValidationNode([UserSchema]);
@@ -213,7 +306,7 @@ describe("ValidationNode", () => {
         ],
       });
 
-      const result = await validator.invoke([aiMessage]);
+      const result = (await validator.invoke([aiMessage])) as ToolMessage[];
       expect(result[0].content).toContain("Custom error for User:");
     });
   });
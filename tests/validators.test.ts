@@ -0,0 +1,192 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import {
+  customValidator,
+  describeIssuesInContext,
+  jsonSchemaValidator,
+  runValidator,
+  standardSchemaValidator,
+  zodValidator,
+  type StandardSchemaV1,
+} from "../src/trustcall/validators.js";
+
+/**
+ * A minimal Standard Schema implementation, standing in for libraries such
+ * as Valibot or ArkType.
+ */
+const PositiveNumber: StandardSchemaV1<{ n: number }> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) => {
+      const n = (value as { n?: unknown })?.n;
+      return typeof n === "number" && n > 0
+        ? { value: { n } }
+        : { issues: [{ message: "Must be positive", path: [{ key: "n" }] }] };
+    },
+  },
+};
+
+describe("zodValidator", () => {
+  const User = z.object({ name: z.string(), tags: z.array(z.string()) });
+
+  it("should return the parsed value", async () => {
+    const result = await zodValidator(User).parse({ name: "A", tags: [] });
+    expect(result).toEqual({ success: true, value: { name: "A", tags: [] } });
+  });
+
+  it("should report Zod issues and the ZodError", async () => {
+    const result = await zodValidator(User).parse({ name: "A", tags: [1] });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues[0]?.path).toEqual(["tags", 0]);
+      expect(result.error).toBeInstanceOf(z.ZodError);
+    }
+  });
+
+  it("should describe the schema", () => {
+    const schema = zodValidator(User).toJsonSchema();
+    expect(schema.properties).toHaveProperty("name");
+  });
+});
+
+describe("jsonSchemaValidator", () => {
+  const schema = {
+    type: "object",
+    properties: { tags: { type: "array", items: { type: "string" } } },
+  };
+
+  it("should validate against the schema", async () => {
+    const validator = jsonSchemaValidator(schema);
+    expect((await validator.parse({ tags: ["a"] })).success).toBe(true);
+    expect((await validator.parse({ tags: [1] })).success).toBe(false);
+  });
+
+  it("should return the schema unchanged", () => {
+    expect(jsonSchemaValidator(schema).toJsonSchema()).toBe(schema);
+  });
+
+  it("should describe errors with JSON Pointers", async () => {
+    const validator = jsonSchemaValidator(schema);
+    const result = await validator.parse({ tags: [1] });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(validator.describeErrors(result.issues)).toBe(
+        "/tags/0: Expected string, received number"
+      );
+    }
+  });
+});
+
+describe("standardSchemaValidator", () => {
+  const validator = standardSchemaValidator(PositiveNumber, {
+    type: "object",
+    properties: { n: { type: "number", exclusiveMinimum: 0 } },
+  });
+
+  it("should return the value on success", async () => {
+    expect(await validator.parse({ n: 2 })).toEqual({
+      success: true,
+      value: { n: 2 },
+    });
+  });
+
+  it("should normalize issue paths", async () => {
+    expect(await validator.parse({ n: -1 })).toEqual({
+      success: false,
+      issues: [{ message: "Must be positive", path: ["n"] }],
+    });
+  });
+
+  it("should work with Zod's own Standard Schema support", async () => {
+    const zodBacked = standardSchemaValidator(z.object({ n: z.number() }), {});
+    const result = await zodBacked.parse({ n: "1" });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues[0]?.path).toEqual(["n"]);
+    }
+  });
+});
+
+describe("customValidator", () => {
+  const Even = customValidator<number>({
+    jsonSchema: { type: "integer", multipleOf: 2 },
+    parse: (value) =>
+      typeof value === "number" && value % 2 === 0
+        ? { success: true, value }
+        : { success: false, issues: [{ path: [], message: "Must be even" }] },
+  });
+
+  it("should use the given function", async () => {
+    expect((await Even.parse(4)).success).toBe(true);
+    expect((await Even.parse(3)).success).toBe(false);
+    expect(Even.toJsonSchema()).toEqual({ type: "integer", multipleOf: 2 });
+  });
+
+  it("should describe errors by default", () => {
+    expect(Even.describeErrors([{ path: ["a", 0], message: "Bad" }])).toBe(
+      "/a/0: Bad"
+    );
+  });
+});
+
+describe("runValidator", () => {
+  it("should turn a thrown error into a failed result", async () => {
+    const broken = customValidator({
+      jsonSchema: {},
+      parse: () => {
+        throw new Error("boom");
+      },
+    });
+    const result = await runValidator(broken, {});
+    expect(result).toMatchObject({
+      success: false,
+      issues: [{ path: [], message: "boom" }],
+    });
+  });
+});
+
+describe("describeIssuesInContext", () => {
+  const schema = {
+    type: "object",
+    properties: { tags: { type: "array", items: { type: "string" } } },
+    additionalProperties: false,
+  };
+
+  it("should show the current value and subschema for each path", () => {
+    const text = describeIssuesInContext(
+      [
+        { path: ["tags", 1], message: "Expected string" },
+        { path: ["tags", 1], message: "Too short" },
+      ],
+      { tags: ["a", 2] },
+      schema
+    );
+    expect(text).toBe(
+      "Path: /tags/1\n" +
+        "Error: Expected string\n" +
+        "Error: Too short\n" +
+        "Current value: 2\n" +
+        'Expected schema:\n```json\n{\n  "type": "string"\n}\n```'
+    );
+  });
+
+  it("should fall back to the nearest described ancestor", () => {
+    const text = describeIssuesInContext(
+      [{ path: ["extra"], message: "Unrecognized key" }],
+      { extra: 1 },
+      schema
+    );
+    expect(text).toContain("Current value: 1");
+    expect(text).toContain('Expected schema (at ""):');
+  });
+
+  it("should mark missing values", () => {
+    const text = describeIssuesInContext(
+      [{ path: ["name"], message: "Required" }],
+      {},
+      { type: "object", properties: { name: { type: "string" } } }
+    );
+    expect(text).toContain("Current value: (missing)");
+  });
+});